@@ -0,0 +1,76 @@
+import { searchCommand, listCommand } from './commands/search.js';
+import { exportCommand } from './commands/export.js';
+import { whichFileCommand } from './commands/whichFile.js';
+import { pruneCommand } from './commands/prune.js';
+import { statsCommand } from './commands/stats.js';
+import { usageCommand } from './commands/usage.js';
+import { ConfigError } from './utils/config.js';
+
+type Command = (args: string[]) => Promise<number>;
+
+const commands: Record<string, Command> = {
+	search: searchCommand,
+	list: listCommand,
+	export: exportCommand,
+	'which-file': whichFileCommand,
+	prune: pruneCommand,
+	stats: statsCommand,
+	usage: usageCommand,
+};
+
+const usage = `Usage:
+  claude-sessions [--rebuild-index]                 Start the interactive search
+  claude-sessions search "<query>" [options]        Print ranked matches
+  claude-sessions list [options]                    Print all sessions
+  claude-sessions export <id> [options]             Write a conversation as a document
+  claude-sessions which-file <path-or-glob> [opts]  List sessions that read or changed a file
+  claude-sessions prune [options]                   Move hidden and short sessions to the trash
+  claude-sessions stats [--json]                    Print usage statistics
+  claude-sessions usage [--json]                    Print tokens and estimated cost per project
+
+Search/list/which-file options:
+  -n, --limit N       Maximum number of results
+  -m, --mode MODE     Search mode (search only): fuzzy (default), exact or regex
+  --json              Output JSON
+  --tsv               Output tab-separated values
+
+Export options:
+  -f, --format FMT    md (default), html or json
+  -o, --output FILE   Write to a file instead of stdout
+  --thinking          Include thinking blocks
+  --tools             Include tool calls and results
+
+Prune options:
+  --older-than AGE    Only sessions last active before an age (90d) or date
+  --max-msgs N        Also prune listed sessions with at most N messages
+  --archive           Move to the archive instead of the trash
+  --dry-run           Only report what would be moved and the space freed
+
+Common options:
+  --rebuild-index     Re-parse every session file instead of using the cache`;
+
+export function isCliCommand(arg: string | undefined): boolean {
+	return arg !== undefined && (arg in commands || arg === 'help' || arg === '--help' || arg === '-h');
+}
+
+// Run a non-interactive subcommand and resolve to the process exit code
+export async function runCli(args: string[]): Promise<number> {
+	const [name, ...rest] = args;
+	const command = commands[name];
+
+	if (!command) {
+		console.log(usage);
+		return 0;
+	}
+
+	try {
+		return await command(rest);
+	} catch (err) {
+		console.error(`Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+		// Usage only helps with mistakes on the command line, not in the config file
+		if (!(err instanceof ConfigError)) {
+			console.error(usage);
+		}
+		return 1;
+	}
+}
@@ -0,0 +1,54 @@
+import fs from 'fs/promises';
+import { parseArgs } from 'util';
+import { scanSessions, findSessionsById } from '../utils/sessionScanner.js';
+import { loadSessionMessages } from '../utils/messageLoader.js';
+import { exportSession, ExportFormat, EXPORT_FORMATS } from '../utils/exporter.js';
+import { loadConfig, getScanOptions } from '../utils/config.js';
+
+// claude-sessions export <id> [--format md|html|json] [-o file] [--thinking] [--tools]
+export async function exportCommand(args: string[]): Promise<number> {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			format: { type: 'string', short: 'f', default: 'md' },
+			output: { type: 'string', short: 'o' },
+			thinking: { type: 'boolean' },
+			tools: { type: 'boolean' },
+			'rebuild-index': { type: 'boolean' },
+		},
+	});
+
+	if (positionals.length !== 1) {
+		throw new Error('export requires exactly one session id');
+	}
+	if (!EXPORT_FORMATS.includes(values.format as ExportFormat)) {
+		throw new Error(`Invalid --format: ${values.format} (expected ${EXPORT_FORMATS.join(', ')})`);
+	}
+
+	const config = await loadConfig();
+	const sessions = await scanSessions(process.cwd(), getScanOptions(config, !!values['rebuild-index']));
+	const matches = findSessionsById(sessions, positionals[0]);
+	if (matches.length === 0) {
+		throw new Error(`No session found with id ${positionals[0]}`);
+	}
+	if (matches.length > 1) {
+		throw new Error(`Session id ${positionals[0]} is ambiguous (${matches.length} matches)`);
+	}
+
+	const session = matches[0];
+	const messages = await loadSessionMessages(session);
+	const output = exportSession(session, messages, {
+		format: values.format as ExportFormat,
+		includeThinking: !!values.thinking,
+		includeTools: !!values.tools,
+	});
+
+	if (values.output) {
+		await fs.writeFile(values.output, output, 'utf-8');
+		console.error(`Exported ${session.id} to ${values.output}`);
+	} else {
+		process.stdout.write(output);
+	}
+	return 0;
+}
@@ -0,0 +1,147 @@
+import path from 'path';
+import { parseArgs } from 'util';
+import { scanSessions, findHiddenTranscripts, Session, HiddenTranscript } from '../utils/sessionScanner.js';
+import { loadConfig, getScanOptions } from '../utils/config.js';
+import { parseDateValue } from '../utils/queryParser.js';
+import { loadAnnotations, Annotations } from '../utils/annotations.js';
+import { getSessionPaths, getDiskUsage, moveTranscript, getRemovedDir, formatBytes, RemoveDestination } from '../utils/trash.js';
+
+export interface PruneCandidate {
+	id: string;
+	filePath: string;
+	subagentPaths: string[];
+	lastActive: Date;
+	label: string; // cwd for listed sessions, project directory for hidden ones
+	reason: string;
+	size: number;
+}
+
+export interface PruneCriteria {
+	before: Date; // Only sessions last active before then
+	maxMessages?: number; // Only sessions with at most this many messages; listed sessions need it to be pruned at all
+}
+
+// Without --older-than, sessions active this recently are kept: a transcript
+// that has no user message yet may still be being written
+const DEFAULT_MIN_AGE_MS = 24 * 3600000;
+
+// Hidden transcripts and, with maxMessages, listed sessions that match the
+// criteria, leaving out starred ones. Sizes are filled in by the caller.
+export function selectPruneCandidates(
+	sessions: Session[],
+	hidden: HiddenTranscript[],
+	annotations: Annotations,
+	criteria: PruneCriteria,
+): PruneCandidate[] {
+	const { before, maxMessages } = criteria;
+	const candidates: PruneCandidate[] = [];
+	for (const transcript of hidden) {
+		const id = path.basename(transcript.filePath, '.jsonl');
+		if (transcript.lastModified.getTime() >= before.getTime() || annotations[id]?.starred) continue;
+		if (maxMessages !== undefined && transcript.messageCount > maxMessages) continue;
+		candidates.push({
+			id,
+			filePath: transcript.filePath,
+			subagentPaths: [],
+			lastActive: transcript.lastModified,
+			label: path.basename(path.dirname(transcript.filePath)),
+			reason: `hidden: ${transcript.reason}`,
+			size: 0,
+		});
+	}
+	if (maxMessages !== undefined) {
+		for (const session of sessions) {
+			if (session.messageCount > maxMessages || session.lastTimestamp.getTime() >= before.getTime() || annotations[session.id]?.starred) continue;
+			candidates.push({
+				id: session.id,
+				filePath: session.filePath,
+				subagentPaths: session.subagents.map(subagent => subagent.filePath),
+				lastActive: session.lastTimestamp,
+				label: session.cwd,
+				reason: `${session.messageCount} message${session.messageCount !== 1 ? 's' : ''}`,
+				size: 0,
+			});
+		}
+	}
+	return candidates;
+}
+
+// claude-sessions prune [--older-than AGE] [--max-msgs N] [--archive] [--dry-run]
+//
+// Hidden sessions (warmups, slash commands, ...) are pruned, and with --max-msgs
+// also listed sessions with at most that many messages; --max-msgs limits the
+// hidden ones too. --older-than limits both to sessions last active before
+// then, and defaults to a day ago. Starred sessions are kept.
+export async function pruneCommand(args: string[]): Promise<number> {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			'older-than': { type: 'string' },
+			'max-msgs': { type: 'string' },
+			archive: { type: 'boolean' },
+			'dry-run': { type: 'boolean' },
+			'rebuild-index': { type: 'boolean' },
+		},
+	});
+
+	if (positionals.length > 0) {
+		throw new Error(`Unexpected argument: ${positionals[0]}`);
+	}
+	let before = new Date(Date.now() - DEFAULT_MIN_AGE_MS);
+	if (values['older-than'] !== undefined) {
+		const date = parseDateValue(values['older-than']);
+		if (!date) {
+			throw new Error(`Invalid --older-than: ${values['older-than']} (expected an age like 90d or a date YYYY-MM-DD)`);
+		}
+		before = date;
+	}
+	let maxMessages: number | undefined;
+	if (values['max-msgs'] !== undefined) {
+		maxMessages = Number(values['max-msgs']);
+		if (!Number.isInteger(maxMessages) || maxMessages < 0) {
+			throw new Error(`Invalid --max-msgs: ${values['max-msgs']}`);
+		}
+	}
+	const destination: RemoveDestination = values.archive ? 'archive' : 'trash';
+
+	const config = await loadConfig();
+	const scanOptions = getScanOptions(config, !!values['rebuild-index']);
+	// Scanning first brings the index up to date, which tells the hidden transcripts apart
+	const sessions = await scanSessions(process.cwd(), scanOptions);
+	const hidden = await findHiddenTranscripts(scanOptions);
+	const annotations = await loadAnnotations();
+	const candidates = selectPruneCandidates(sessions, hidden, annotations, { before, maxMessages });
+	for (const candidate of candidates) {
+		candidate.size = await getDiskUsage(await getSessionPaths(candidate.filePath, candidate.subagentPaths));
+	}
+	candidates.sort((a, b) => a.lastActive.getTime() - b.lastActive.getTime());
+
+	for (const candidate of candidates) {
+		const date = candidate.lastActive.toISOString().slice(0, 16).replace('T', ' ');
+		console.log(`${date}  ${formatBytes(candidate.size).padStart(9)}  ${candidate.id}  ${candidate.label}  (${candidate.reason})`);
+	}
+
+	const total = formatBytes(candidates.reduce((sum, candidate) => sum + candidate.size, 0));
+	const count = `${candidates.length} session${candidates.length !== 1 ? 's' : ''}`;
+	if (values['dry-run']) {
+		console.log(`Would move ${count} to ${getRemovedDir(destination)}, freeing ${total}`);
+		return 0;
+	}
+
+	let failed = 0;
+	for (const candidate of candidates) {
+		try {
+			await moveTranscript(candidate.filePath, candidate.subagentPaths, destination);
+		} catch (err) {
+			failed++;
+			console.error(`Could not move ${candidate.id}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+		}
+	}
+	if (failed > 0) {
+		console.log(`Moved ${candidates.length - failed} of ${count} to ${getRemovedDir(destination)}`);
+	} else {
+		console.log(`Moved ${count} to ${getRemovedDir(destination)}, freeing ${total}`);
+	}
+	return failed > 0 ? 1 : 0;
+}
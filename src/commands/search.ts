@@ -0,0 +1,157 @@
+import { parseArgs } from 'util';
+import { scanSessions, Session } from '../utils/sessionScanner.js';
+import { loadConfig, getScanOptions, Config } from '../utils/config.js';
+import { rankSessions, RankedSession, SearchMode, SEARCH_MODES, getPatternError } from '../utils/ranking.js';
+import { parseQuery } from '../utils/queryParser.js';
+import { loadAnnotations, applyAnnotations } from '../utils/annotations.js';
+
+export type OutputFormat = 'text' | 'json' | 'tsv';
+
+interface SearchResult {
+	id: string;
+	cwd: string;
+	timestamp: string;
+	messageCount: number;
+	firstMessage: string;
+	branches: string[];
+	starred: boolean;
+	tags: string[];
+	note?: string;
+	score: number | null;
+}
+
+function toResult({ session }: RankedSession, score: number | null): SearchResult {
+	return {
+		id: session.id,
+		cwd: session.cwd,
+		timestamp: session.timestamp.toISOString(),
+		messageCount: session.messageCount,
+		firstMessage: session.firstMessage,
+		branches: session.branches,
+		starred: !!session.annotation?.starred,
+		tags: session.annotation?.tags ?? [],
+		note: session.annotation?.note,
+		score,
+	};
+}
+
+// Collapse whitespace so a result always fits on one line / one TSV field
+function oneLine(text: string): string {
+	return text.replace(/\s+/g, ' ').trim();
+}
+
+function formatResults(results: SearchResult[], format: OutputFormat): string {
+	if (format === 'json') {
+		return JSON.stringify(results, null, 2);
+	}
+
+	if (format === 'tsv') {
+		const header = ['id', 'cwd', 'timestamp', 'messageCount', 'firstMessage', 'score', 'branches', 'starred', 'tags'].join('\t');
+		const rows = results.map(r => [
+			r.id,
+			r.cwd,
+			r.timestamp,
+			r.messageCount.toString(),
+			oneLine(r.firstMessage),
+			r.score === null ? '' : r.score.toFixed(4),
+			r.branches.join(','),
+			r.starred ? '1' : '',
+			r.tags.join(','),
+		].join('\t'));
+		return [header, ...rows].join('\n');
+	}
+
+	return results.map(r => {
+		const score = r.score === null ? '' : `${r.score.toFixed(3)}  `;
+		const date = r.timestamp.slice(0, 16).replace('T', ' ');
+		const star = r.starred ? '★ ' : '';
+		const tags = r.tags.length > 0 ? `  ${r.tags.map(tag => `#${tag}`).join(' ')}` : '';
+		return `${score}${star}${date}  ${r.messageCount.toString().padStart(4)}  ${r.id}  ${r.cwd}${tags}\n    ${oneLine(r.firstMessage).slice(0, 120)}`;
+	}).join('\n');
+}
+
+// Options of the commands that list sessions, shared with which-file
+export const LIST_OPTIONS = {
+	limit: { type: 'string', short: 'n' },
+	json: { type: 'boolean' },
+	tsv: { type: 'boolean' },
+	'rebuild-index': { type: 'boolean' },
+} as const;
+
+// Validate the values parsed from LIST_OPTIONS
+export function getListOptions(values: { limit?: string; json?: boolean; tsv?: boolean; 'rebuild-index'?: boolean }) {
+	if (values.json && values.tsv) {
+		throw new Error('--json and --tsv cannot be combined');
+	}
+
+	let limit: number | undefined;
+	if (values.limit !== undefined) {
+		limit = Number(values.limit);
+		if (!Number.isInteger(limit) || limit < 1) {
+			throw new Error(`Invalid --limit: ${values.limit}`);
+		}
+	}
+
+	const format: OutputFormat = values.json ? 'json' : values.tsv ? 'tsv' : 'text';
+	return { limit, format, rebuildIndex: !!values['rebuild-index'] };
+}
+
+function parseCommonOptions(args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			...LIST_OPTIONS,
+			mode: { type: 'string', short: 'm', default: 'fuzzy' },
+		},
+	});
+
+	if (!SEARCH_MODES.includes(values.mode as SearchMode)) {
+		throw new Error(`Invalid --mode: ${values.mode} (expected ${SEARCH_MODES.join(', ')})`);
+	}
+
+	return { positionals, ...getListOptions(values), mode: values.mode as SearchMode };
+}
+
+// Scanned sessions with their stars, tags and notes
+async function loadSessions(rebuildIndex: boolean, config: Config): Promise<Session[]> {
+	const sessions = await scanSessions(process.cwd(), getScanOptions(config, rebuildIndex));
+	return applyAnnotations(sessions, await loadAnnotations());
+}
+
+// claude-sessions search "<query>" [--limit N] [--mode fuzzy|exact|regex] [--json|--tsv]
+export async function searchCommand(args: string[]): Promise<number> {
+	const { positionals, limit, format, mode, rebuildIndex } = parseCommonOptions(args);
+	const query = parseQuery(positionals.join(' '), { literal: mode !== 'fuzzy' });
+	const patternError = getPatternError(query.text, mode);
+	const errors = patternError ? [...query.errors, patternError] : query.errors;
+	if (errors.length > 0) {
+		throw new Error(errors.join('; '));
+	}
+	if (!query.text.trim() && query.filters.length === 0 && query.excludes.length === 0) {
+		throw new Error('search requires a query');
+	}
+
+	const config = await loadConfig();
+	const sessions = await loadSessions(rebuildIndex, config);
+	const ranked = rankSessions(sessions, query, mode, config.ranking).slice(0, limit);
+	// Filter-only queries have nothing to score against
+	const scored = query.text.trim().length > 0;
+	console.log(formatResults(ranked.map(r => toResult(r, scored ? r.score : null)), format));
+	return 0;
+}
+
+// claude-sessions list [--limit N] [--json|--tsv]
+export async function listCommand(args: string[]): Promise<number> {
+	const { positionals, limit, format, rebuildIndex } = parseCommonOptions(args);
+	if (positionals.length > 0) {
+		throw new Error(`Unexpected argument: ${positionals[0]}`);
+	}
+
+	const config = await loadConfig();
+	const sessions = await loadSessions(rebuildIndex, config);
+	// Without a query there is nothing to score - keep the scanner's distance/recency order
+	const ranked = rankSessions(sessions, parseQuery(''), 'fuzzy', config.ranking).slice(0, limit);
+	console.log(formatResults(ranked.map(r => toResult(r, null)), format));
+	return 0;
+}
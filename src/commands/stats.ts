@@ -0,0 +1,64 @@
+import { parseArgs } from 'util';
+import { scanSessions } from '../utils/sessionScanner.js';
+import { loadConfig, getScanOptions } from '../utils/config.js';
+import { computeStats, sparkline, bar, getBusiestHours, SessionStats } from '../utils/stats.js';
+
+function formatStats(stats: SessionStats): string {
+	const lines = [
+		`Sessions: ${stats.sessions}   Messages: ${stats.messages}   Average length: ${stats.averageMessages.toFixed(1)} messages`,
+	];
+	if (stats.firstActivity && stats.lastActivity) {
+		lines.push(`Active from ${stats.firstActivity.slice(0, 10)} to ${stats.lastActivity.slice(0, 10)}`);
+	}
+
+	const days = stats.days;
+	lines.push('', `Messages per day (last ${days.length} days, ${days[0].start} to ${days[days.length - 1].start}):`);
+	lines.push(`  ${sparkline(days.map(day => day.messages))}`);
+	const weeks = stats.weeks;
+	lines.push('', `Messages per week (last ${weeks.length} weeks, from ${weeks[0].start}):`);
+	lines.push(`  ${sparkline(weeks.map(week => week.messages))}`);
+
+	lines.push('', 'Messages by hour of the day:', `  ${sparkline(stats.hours)}`, '  0     6     12    18   23');
+	const busiest = getBusiestHours(stats.hours, 3);
+	if (busiest.length > 0) {
+		lines.push(`  Most active: ${busiest.map(hour => `${String(hour).padStart(2, '0')}:00`).join(', ')}`);
+	}
+
+	if (stats.models.length > 0) {
+		lines.push('', 'Models (sessions):');
+		for (const model of stats.models) {
+			lines.push(`  ${String(model.sessions).padStart(5)}  ${model.model}`);
+		}
+	}
+
+	if (stats.projects.length > 0) {
+		lines.push('', 'Projects (sessions, messages):');
+		const max = stats.projects[0].sessions;
+		for (const project of stats.projects) {
+			lines.push(`  ${String(project.sessions).padStart(5)}  ${String(project.messages).padStart(6)}  ${bar(project.sessions, max, 20).padEnd(20)}  ${project.directory}`);
+		}
+	}
+	return lines.join('\n');
+}
+
+// claude-sessions stats [--json]
+export async function statsCommand(args: string[]): Promise<number> {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			json: { type: 'boolean' },
+			'rebuild-index': { type: 'boolean' },
+		},
+	});
+
+	if (positionals.length > 0) {
+		throw new Error(`Unexpected argument: ${positionals[0]}`);
+	}
+
+	const config = await loadConfig();
+	const sessions = await scanSessions(process.cwd(), getScanOptions(config, !!values['rebuild-index']));
+	const stats = computeStats(sessions);
+	console.log(values.json ? JSON.stringify(stats, null, 2) : formatStats(stats));
+	return 0;
+}
@@ -0,0 +1,86 @@
+import { parseArgs } from 'util';
+import { scanSessions } from '../utils/sessionScanner.js';
+import { loadConfig, getScanOptions } from '../utils/config.js';
+import {
+	getProjectUsage,
+	getCombinedUsage,
+	getTotalUsage,
+	getTotalTokens,
+	estimateCost,
+	formatTokens,
+	formatCost,
+	ProjectUsage,
+	PriceTable,
+} from '../utils/usage.js';
+
+function formatRow(label: string, row: ProjectUsage, prices: PriceTable): string {
+	const total = getTotalUsage(row.usage);
+	const columns = [total.input, total.output, total.cacheCreation, total.cacheRead].map(count => formatTokens(count).padStart(8));
+	return `${String(row.sessions).padStart(8)}  ${columns.join('  ')}  ${formatCost(estimateCost(row.usage, prices)).padStart(10)}  ${label}`;
+}
+
+// claude-sessions usage [--json]
+//
+// Tokens and estimated cost per project, most expensive first, with subagents
+// counted in their session's project.
+export async function usageCommand(args: string[]): Promise<number> {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			json: { type: 'boolean' },
+			'rebuild-index': { type: 'boolean' },
+		},
+	});
+
+	if (positionals.length > 0) {
+		throw new Error(`Unexpected argument: ${positionals[0]}`);
+	}
+
+	const config = await loadConfig();
+	const sessions = await scanSessions(process.cwd(), getScanOptions(config, !!values['rebuild-index']));
+	const prices = config.prices;
+	const projects = getProjectUsage(sessions)
+		.map(project => ({ ...project, estimate: estimateCost(project.usage, prices) }))
+		.sort((a, b) => b.estimate.cost - a.estimate.cost
+			|| getTotalTokens(getTotalUsage(b.usage)) - getTotalTokens(getTotalUsage(a.usage)));
+	const total: ProjectUsage = {
+		directory: '',
+		sessions: sessions.length,
+		// Not the projects' sum: a session resumed in another directory shares responses with its parent
+		usage: getCombinedUsage(sessions),
+	};
+	const totalEstimate = estimateCost(total.usage, prices);
+
+	if (values.json) {
+		console.log(JSON.stringify({
+			projects: projects.map(project => ({
+				directory: project.directory,
+				sessions: project.sessions,
+				tokens: getTotalUsage(project.usage),
+				models: project.usage,
+				cost: project.estimate.cost,
+				unpricedModels: project.estimate.unpriced,
+			})),
+			total: {
+				sessions: total.sessions,
+				tokens: getTotalUsage(total.usage),
+				models: total.usage,
+				cost: totalEstimate.cost,
+				unpricedModels: totalEstimate.unpriced,
+			},
+		}, null, 2));
+		return 0;
+	}
+
+	const header = ['SESSIONS', 'INPUT', 'OUTPUT', 'CACHE W', 'CACHE R'].map(name => name.padStart(8)).join('  ');
+	console.log(`${header}  ${'COST'.padStart(10)}  PROJECT`);
+	for (const project of projects) {
+		console.log(formatRow(project.directory, project, prices));
+	}
+	console.log(formatRow('(total)', total, prices));
+	if (totalEstimate.unpriced.length > 0) {
+		console.log(`\nNo price for ${totalEstimate.unpriced.join(', ')}, so costs marked + or ? leave it out (add prices under "prices" in the config file)`);
+	}
+	return 0;
+}
@@ -0,0 +1,62 @@
+import { parseArgs } from 'util';
+import { scanSessions } from '../utils/sessionScanner.js';
+import { loadConfig, getScanOptions } from '../utils/config.js';
+import { compileFilePattern, formatOperations, getDisplayPath, SessionFile } from '../utils/files.js';
+import { LIST_OPTIONS, getListOptions } from './search.js';
+
+interface WhichFileResult {
+	id: string;
+	cwd: string;
+	timestamp: string;
+	firstMessage: string;
+	files: SessionFile[];
+}
+
+// claude-sessions which-file <path-or-glob> [--limit N] [--json|--tsv]
+export async function whichFileCommand(args: string[]): Promise<number> {
+	const { values, positionals } = parseArgs({ args, allowPositionals: true, options: LIST_OPTIONS });
+	const { limit, format, rebuildIndex } = getListOptions(values);
+	if (positionals.length !== 1) {
+		throw new Error('which-file requires exactly one path or glob');
+	}
+
+	const matches = compileFilePattern(positionals[0]);
+	const config = await loadConfig();
+	const sessions = await scanSessions(process.cwd(), getScanOptions(config, rebuildIndex));
+
+	// Most recent first: the latest session to touch a file is usually the one wanted
+	const results: WhichFileResult[] = sessions
+		.map(session => ({ session, files: session.files.filter(file => matches(file.path)) }))
+		.filter(({ files }) => files.length > 0)
+		.sort((a, b) => b.session.timestamp.getTime() - a.session.timestamp.getTime())
+		.slice(0, limit)
+		.map(({ session, files }) => ({
+			id: session.id,
+			cwd: session.cwd,
+			timestamp: session.timestamp.toISOString(),
+			firstMessage: session.firstMessage,
+			files,
+		}));
+
+	if (format === 'json') {
+		console.log(JSON.stringify(results, null, 2));
+	} else if (format === 'tsv') {
+		const header = ['id', 'cwd', 'timestamp', 'path', 'operations'].join('\t');
+		const rows = results.flatMap(r => r.files.map(file => [
+			r.id,
+			r.cwd,
+			r.timestamp,
+			file.path,
+			formatOperations(file.operations),
+		].join('\t')));
+		console.log([header, ...rows].join('\n'));
+	} else if (results.length > 0) {
+		console.log(results.map(r => {
+			const date = r.timestamp.slice(0, 16).replace('T', ' ');
+			const files = r.files.map(file => `    ${formatOperations(file.operations).padEnd(16)}  ${getDisplayPath(file.path, r.cwd)}`);
+			return [`${date}  ${r.id}  ${r.cwd}`, ...files].join('\n');
+		}).join('\n'));
+	}
+
+	return 0;
+}
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { Text, useInput } from 'ink';
+
+interface AnnotationPromptProps {
+	label: string; // e.g. "Tags"
+	initialValue: string;
+	hint?: string;
+	onSubmit: (value: string) => void;
+	onCancel: () => void;
+}
+
+// One-line prompt for editing a session's tags or note. It takes all input
+// while open, so the view showing it must ignore keys until it closes.
+export function AnnotationPrompt({ label, initialValue, hint, onSubmit, onCancel }: AnnotationPromptProps) {
+	const [value, setValue] = useState(initialValue);
+
+	useInput((input, key) => {
+		if (key.escape) {
+			onCancel();
+		} else if (key.return) {
+			onSubmit(value);
+		} else if (key.backspace || key.delete) {
+			setValue(prev => prev.slice(0, -1));
+		} else if (key.ctrl && input === 'w') {
+			setValue(prev => prev.replace(/\s*\S+\s*$/, ''));
+		} else if (key.ctrl && input === 'u') {
+			setValue('');
+		} else if (input && !key.ctrl && !key.meta) {
+			setValue(prev => prev + input);
+		}
+	});
+
+	return (
+		<Text wrap="truncate-start">
+			<Text color="cyan">{label}: </Text>
+			<Text color="yellow">{value}</Text>
+			<Text color="gray">_</Text>
+			<Text dimColor>  {hint ? `${hint} | ` : ''}Enter: Save | Ctrl+U: Clear | Esc: Cancel</Text>
+		</Text>
+	);
+}
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Text, useInput } from 'ink';
+
+interface ConfirmPromptProps {
+	message: string;
+	onConfirm: () => void;
+	onCancel: () => void;
+}
+
+// Yes/no question in place of the help line. It takes all input while open,
+// so the view showing it must ignore keys until it closes.
+export function ConfirmPrompt({ message, onConfirm, onCancel }: ConfirmPromptProps) {
+	useInput((input, key) => {
+		if (input === 'y' || input === 'Y') {
+			onConfirm();
+		} else if (input === 'n' || input === 'N' || key.escape) {
+			onCancel();
+		}
+	});
+
+	return (
+		<Text wrap="truncate-end">
+			<Text color="yellow">{message} </Text>
+			<Text dimColor>y: Yes | n/Esc: No</Text>
+		</Text>
+	);
+}
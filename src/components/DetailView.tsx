@@ -1,79 +1,521 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Box, Text, Newline, useInput, useStdout } from 'ink';
-import { Session } from '../utils/sessionScanner.js';
+import { Session, SessionMessage, isConversationMessage } from '../utils/sessionScanner.js';
+import { loadSubagentMessages } from '../utils/messageLoader.js';
 import { spawn } from 'child_process';
+import { HighlightedText } from './HighlightedText.js';
+import { MessagePager } from './MessagePager.js';
+import { AnnotationPrompt } from './AnnotationPrompt.js';
+import { ConfirmPrompt } from './ConfirmPrompt.js';
+import { compileSearchPattern, findMatches } from '../utils/ranking.js';
+import { parseQuery } from '../utils/queryParser.js';
+import { highlightMatches } from '../utils/snippets.js';
+import { writeExportFile, ExportFormat } from '../utils/exporter.js';
+import { LaunchProfile } from '../utils/config.js';
+import { formatOperations, getDisplayPath, sortFilesByChanges } from '../utils/files.js';
+import { getCommitsBetween, GitCommit } from '../utils/git.js';
+import { LineageRow } from '../utils/lineage.js';
+import { Annotation, parseTags, formatTags } from '../utils/annotations.js';
+import { RemoveDestination } from '../utils/trash.js';
+import { getSessionUsage, getTotalUsage, getTotalTokens, estimateCost, formatTokens, formatCost, PriceTable, DEFAULT_PRICES } from '../utils/usage.js';
+import { buildTimeline, buildRows, findRow, getCallLine, getRowText, getRowSearchText, ConversationRow, TimelineItem } from '../utils/conversation.js';
+import { ActiveSearch, StatusMessage } from '../utils/types.js';
+import { KeyMap, DetailAction, DEFAULT_KEY_BINDINGS, matchesKey, keyLabel, keyPairLabel, formatHelp } from '../utils/keys.js';
 
 interface DetailViewProps {
 	session: Session;
+	messages: SessionMessage[];
+	lineage?: LineageRow[]; // The session's family of forks and resumes, when it has one
+	search?: ActiveSearch; // Search the session was opened from
+	keys?: KeyMap<DetailAction>;
+	profiles: LaunchProfile[];
+	defaultProfile: string;
+	launchStatus?: StatusMessage | null; // Outcome of the last launch, reported by the app
 	onBack: () => void;
-	onLaunch: (session: Session) => void;
+	onLaunch: (session: Session, profile: LaunchProfile) => void;
+	onResumeFrom: (session: Session, message: SessionMessage, profile: LaunchProfile) => void; // Launch a copy that ends at the message
+	onRefresh?: () => void; // Scan for new and changed sessions, including this one
+	onAnnotate?: (updates: Record<string, Partial<Annotation>>) => Promise<void>; // Save stars, tags or notes by session id
+	onRemove?: (sessions: Session[], destination: RemoveDestination) => Promise<void>; // Move sessions to the trash or archive
+	prices?: PriceTable;
 }
 
-export function DetailView({ session, onBack, onLaunch }: DetailViewProps) {
+// Panel shown in place of the preview
+type InfoPanel = 'files' | 'commits' | 'lineage';
+
+// Label in the role column of the conversation list
+function getRowLabel(row: ConversationRow): string {
+	switch (row.kind) {
+		case 'message':
+			return row.message.message?.role || row.message.type;
+		case 'tools':
+			return `${row.expanded ? '▾' : '▸'} tools`;
+		case 'tool':
+			return row.call.subagent && !row.depth ? `${row.expanded ? '▾' : '▸'} agent` : 'tool';
+	}
+}
+
+// Single-line text of a row in the conversation list
+function getRowListText(row: ConversationRow): string {
+	switch (row.kind) {
+		case 'message':
+			return getRowText(row);
+		case 'tools': {
+			const count = `${row.calls.length} call${row.calls.length !== 1 ? 's' : ''}`;
+			return row.expanded ? count : `${count}: ${row.calls.map(getCallLine).join(' · ')}`;
+		}
+		case 'tool':
+			return getCallLine(row.call);
+	}
+}
+
+// Title of the preview panel and pager
+function getRowTitle(row: ConversationRow): string {
+	return row.depth ? `subagent ${getRowBaseTitle(row)}` : getRowBaseTitle(row);
+}
+
+function getRowBaseTitle(row: ConversationRow): string {
+	switch (row.kind) {
+		case 'message':
+			return row.message.message?.role || row.message.type;
+		case 'tools':
+			return `${row.calls.length} tool call${row.calls.length !== 1 ? 's' : ''}`;
+		case 'tool':
+			return `${row.call.call.name} tool call`;
+	}
+}
+
+export function DetailView({
+	session,
+	messages,
+	lineage = [],
+	search,
+	keys = DEFAULT_KEY_BINDINGS.detail,
+	profiles,
+	defaultProfile,
+	launchStatus,
+	onBack,
+	onLaunch,
+	onResumeFrom,
+	onRefresh,
+	onAnnotate,
+	onRemove,
+	prices = DEFAULT_PRICES,
+}: DetailViewProps) {
 	const [scrollOffset, setScrollOffset] = useState(0);
-	const [selectedMessageIndex, setSelectedMessageIndex] = useState(0);
+	const [selectedRowIndex, setSelectedRowIndex] = useState(0);
+	// Free text of the search query (filters stripped) is the initial in-session search
+	const [searchTerm, setSearchTerm] = useState(() => (search ? parseQuery(search.query, { literal: search.mode !== 'fuzzy' }).text.trim() : ''));
+	const [searchInput, setSearchInput] = useState<string | null>(null); // Set while the / prompt is open
+	const [searchError, setSearchError] = useState<string | null>(null);
+	const [pagerOpen, setPagerOpen] = useState(false);
+	const [exportMenuOpen, setExportMenuOpen] = useState(false);
+	const [exportThinking, setExportThinking] = useState(false);
+	const [exportTools, setExportTools] = useState(false);
+	const [launchChoice, setLaunchChoice] = useState<number | null>(null); // Set while the profile chooser is open
+	// Set when the chooser launches from a message rather than the whole session
+	const [launchFrom, setLaunchFrom] = useState<{ message: SessionMessage; number: number } | null>(null);
+	const [status, setStatus] = useState<StatusMessage | null>(null);
+	const [editing, setEditing] = useState<'tags' | 'note' | null>(null); // Set while the tags or note prompt is open
+	const [confirmRemove, setConfirmRemove] = useState<RemoveDestination | null>(null); // Set while asking to confirm
+	const [showTools, setShowTools] = useState(true);
+	const [panel, setPanel] = useState<InfoPanel | null>(null);
+	// Commits made while the session ran: undefined while loading, null outside a git repository
+	const [commits, setCommits] = useState<GitCommit[] | null | undefined>(undefined);
+	const [commitsError, setCommitsError] = useState<string | null>(null);
+	const [expandedGroups, setExpandedGroups] = useState<Set<number>>(new Set());
+	const [expandedSubagents, setExpandedSubagents] = useState<Map<string, TimelineItem[]>>(new Map());
 	const { stdout } = useStdout();
 
+	// Fuzzy queries can't be matched per message, so they fall back to exact (smart-case) matching
+	const patternMode = search?.mode === 'regex' ? 'regex' : 'exact';
+
 	// Calculate available space for messages
 	const terminalHeight = stdout?.rows || 24;
 	const terminalWidth = stdout?.columns || 120;
-	// Overhead: Header (2) + metadata (5) + "Conversation:" (2) + scroll indicator (2) + preview (4-14 dynamic) + footer (2) + padding (2)
+	const helpText = formatHelp([
+		[keyPairLabel(keys.up, keys.down), 'Navigate'],
+		[keyPairLabel(keys.halfPageUp, keys.halfPageDown), 'Half-page'],
+		[keyPairLabel(keys.top, keys.bottom), 'Top/Bottom'],
+		[keyLabel(keys.search), 'Search'],
+		[keyPairLabel(keys.nextMatch, keys.prevMatch), 'Next/Prev match'],
+		[keyLabel(keys.open), 'Open'],
+		[keyLabel(keys.toggleTools), showTools ? 'Hide tools' : 'Show tools'],
+		[keyLabel(keys.expandTools), 'Expand tools'],
+		[keyLabel(keys.files), panel === 'files' ? 'Hide files' : 'Files'],
+		[keyLabel(keys.commits), panel === 'commits' ? 'Hide commits' : 'Commits'],
+		[keyLabel(keys.lineage), panel === 'lineage' ? 'Hide lineage' : 'Lineage'],
+		[keyLabel(keys.export), 'Export'],
+		[onRefresh ? keyLabel(keys.refresh) : '', 'Refresh'],
+		[onAnnotate ? keyLabel(keys.star) : '', session.annotation?.starred ? 'Unstar' : 'Star'],
+		[onAnnotate ? keyLabel(keys.editTags) : '', 'Tags'],
+		[onAnnotate ? keyLabel(keys.editNote) : '', 'Note'],
+		[onRemove ? keyLabel(keys.delete) : '', 'Trash'],
+		[onRemove ? keyLabel(keys.archive) : '', 'Archive'],
+		[keyLabel(keys.launch), 'Launch'],
+		[keyLabel(keys.resumeHere), 'Resume from here'],
+		[keyLabel(keys.back), 'Back'],
+		['Ctrl+C', 'Exit'],
+	]);
+	// The help line wraps on narrower terminals
+	const helpRows = Math.ceil(helpText.length / Math.max(1, terminalWidth - 2));
+	// Overhead: Header (2) + metadata (7) + "Conversation:" (2) + list margin (1) + scroll indicator (2) + preview (4-14 dynamic) + footer (1 + help rows) + padding (2)
 	// Conservative estimate using max preview size
-	const uiOverhead = 29;
+	const uiOverhead = 31 + helpRows + (session.annotation?.note ? 1 : 0); // Plus the note under the header
 	const maxVisibleMessages = Math.max(3, terminalHeight - uiOverhead);
 	const previewMaxLines = 10; // Limit preview to 10 lines, but box shrinks to content
+	// Panels list at most previewMaxLines entries, including their "… and N more" line
+	const panelItemCount = (total: number) => (total > previewMaxLines ? previewMaxLines - 1 : total);
 
-	// Helper function to check if a message has displayable text content
-	const hasTextContent = (msg: any): boolean => {
-		const content = msg.message?.content;
-		if (!content) return false;
+	// Get user and assistant messages only (skip file-history-snapshot and other system messages)
+	// Also filter out messages with no text content (tool-use-only messages)
+	const conversationMessages = messages.filter(isConversationMessage);
+	// Tool calls between messages are grouped into collapsible rows
+	const timeline = useMemo(() => buildTimeline(messages, session.subagents), [messages, session]);
+	const rows = useMemo(
+		() => buildRows(timeline, showTools, expandedGroups, expandedSubagents),
+		[timeline, showTools, expandedGroups, expandedSubagents],
+	);
+	const toolCallCount = timeline.reduce((count, item) => count + (item.kind === 'tools' ? item.calls.length : 0), 0);
+	const messageDetails = [
+		toolCallCount > 0 ? `${toolCallCount} tool call${toolCallCount !== 1 ? 's' : ''}${showTools ? '' : ', hidden'}` : '',
+		session.subagents.length > 0 ? `${session.subagents.length} subagent${session.subagents.length !== 1 ? 's' : ''}` : '',
+	].filter(Boolean);
+	// Subagents' tokens count towards the session's
+	const usage = useMemo(() => getSessionUsage(session), [session]);
+	const tokens = getTotalUsage(usage);
+	const cost = estimateCost(usage, prices);
 
-		if (typeof content === 'string') {
-			return content.trim().length > 0;
+	const maxScroll = Math.max(0, rows.length - maxVisibleMessages);
+
+	const compilePattern = (term: string): RegExp | null => {
+		if (!term) return null;
+		try {
+			return compileSearchPattern(term, patternMode);
+		} catch {
+			return null;
 		}
+	};
 
-		if (Array.isArray(content)) {
-			return content.some(item =>
-				(item.text && item.text.trim().length > 0)
-				// Skip thinking blocks - only count actual text content
-			);
+	const getMatchIndices = (pattern: RegExp | null): number[] => {
+		if (!pattern) return [];
+		return rows
+			.map((row, index) => (findMatches(pattern, getRowSearchText(row)).count > 0 ? index : -1))
+			.filter(index => index >= 0);
+	};
+
+	const searchPattern = useMemo(() => compilePattern(searchTerm), [searchTerm, patternMode]);
+	const matchIndices = useMemo(() => getMatchIndices(searchPattern), [searchPattern, rows]);
+
+	// Select a row and scroll it into the middle of the list if it's off screen
+	const selectRow = (index: number, rowCount = rows.length) => {
+		const rowMaxScroll = Math.max(0, rowCount - maxVisibleMessages);
+		setSelectedRowIndex(index);
+		if (index < scrollOffset || index >= scrollOffset + maxVisibleMessages) {
+			setScrollOffset(Math.max(0, Math.min(rowMaxScroll, index - Math.floor(maxVisibleMessages / 2))));
 		}
+	};
 
-		return false;
+	// Show or hide tool rows, or expand or collapse a group or subagent, keeping the selection in place
+	const relayout = (nextShowTools: boolean, nextExpanded: Set<number>, nextSubagents = expandedSubagents) => {
+		const current = rows[selectedRowIndex];
+		const nextRows = buildRows(timeline, nextShowTools, nextExpanded, nextSubagents);
+		setShowTools(nextShowTools);
+		setExpandedGroups(nextExpanded);
+		setExpandedSubagents(nextSubagents);
+		if (current) {
+			selectRow(findRow(nextRows, current.key, current.position), nextRows.length);
+		}
 	};
 
-	// Get user and assistant messages only (skip file-history-snapshot and other system messages)
-	// Also filter out messages with no text content (tool-use-only messages)
-	const conversationMessages = session.messages.filter(
-		msg => (msg.type === 'user' || msg.type === 'assistant') && hasTextContent(msg)
-	);
+	const toggleGroup = (row: ConversationRow) => {
+		const next = new Set(expandedGroups);
+		if (next.has(row.position)) {
+			next.delete(row.position);
+		} else {
+			next.add(row.position);
+		}
+		relayout(showTools, next);
+	};
+
+	// Show or hide a subagent's conversation below the call that started it,
+	// reading its transcript when it is expanded
+	const toggleSubagent = async (row: ConversationRow & { kind: 'tool' }) => {
+		const subagent = row.call.subagent;
+		if (!subagent) return;
+		const next = new Map(expandedSubagents);
+		if (next.has(subagent.id)) {
+			next.delete(subagent.id);
+		} else {
+			try {
+				next.set(subagent.id, buildTimeline(await loadSubagentMessages(subagent)));
+			} catch (err) {
+				setStatus({ text: `Could not read subagent transcript: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+				return;
+			}
+		}
+		relayout(showTools, expandedGroups, next);
+	};
+
+	// Open with a subagent's conversation expanded, at its first row matching the search
+	const revealSubagent = async (agentId: string) => {
+		const position = timeline.findIndex(item => item.kind === 'tools' && item.calls.some(call => call.subagent?.id === agentId));
+		const item = timeline[position];
+		const subagent = item?.kind === 'tools' ? item.calls.find(call => call.subagent?.id === agentId)?.subagent : undefined;
+		if (!subagent) return;
+
+		const nextExpanded = new Set(expandedGroups).add(position);
+		const nextSubagents = new Map(expandedSubagents).set(agentId, buildTimeline(await loadSubagentMessages(subagent)));
+		const nextRows = buildRows(timeline, true, nextExpanded, nextSubagents);
+		setShowTools(true);
+		setExpandedGroups(nextExpanded);
+		setExpandedSubagents(nextSubagents);
+
+		const callRow = nextRows.findIndex(row => row.kind === 'tool' && !row.depth && row.call.subagent?.id === agentId);
+		const prefix = `${nextRows[callRow].key}/`;
+		const hit = nextRows.findIndex(row => row.key.startsWith(prefix)
+			&& !!searchPattern && findMatches(searchPattern, getRowSearchText(row)).count > 0);
+		selectRow(hit >= 0 ? hit : callRow, nextRows.length);
+	};
 
-	const maxScroll = Math.max(0, conversationMessages.length - maxVisibleMessages);
+	// Jump to the next (or previous) match, wrapping around the conversation
+	const jumpToMatch = (indices: number[], from: number, direction: 1 | -1) => {
+		if (indices.length === 0) return;
+		const next = direction === 1
+			? indices.find(index => index > from) ?? indices[0]
+			: [...indices].reverse().find(index => index < from) ?? indices[indices.length - 1];
+		selectRow(next);
+	};
+
+	// Open at the first message matching the search, falling back to where the
+	// search view found its best match (e.g. for fuzzy matches)
+	useEffect(() => {
+		if (search?.match?.subagent) {
+			revealSubagent(search.match.subagent).catch(() => {
+				// Unreadable transcript: stay at the top
+			});
+		} else if (matchIndices.length > 0) {
+			selectRow(matchIndices[0]);
+		} else if (search?.match && rows.length > 0) {
+			const matchRow = rows.findIndex(row => row.kind === 'message' && !row.depth && row.messageIndex >= search.match!.messageIndex);
+			selectRow(matchRow >= 0 ? matchRow : rows.length - 1);
+		}
+	}, []);
 
 	// Adjust scroll position on terminal resize to keep selection visible
 	useEffect(() => {
-		if (selectedMessageIndex < scrollOffset) {
-			setScrollOffset(selectedMessageIndex);
-		} else if (selectedMessageIndex >= scrollOffset + maxVisibleMessages) {
-			setScrollOffset(Math.max(0, selectedMessageIndex - maxVisibleMessages + 1));
+		if (selectedRowIndex < scrollOffset) {
+			setScrollOffset(selectedRowIndex);
+		} else if (selectedRowIndex >= scrollOffset + maxVisibleMessages) {
+			setScrollOffset(Math.max(0, selectedRowIndex - maxVisibleMessages + 1));
 		}
 		// Ensure scroll doesn't exceed bounds
 		if (scrollOffset > maxScroll) {
 			setScrollOffset(maxScroll);
 		}
 		// Ensure selection doesn't exceed bounds
-		if (selectedMessageIndex >= conversationMessages.length && conversationMessages.length > 0) {
-			setSelectedMessageIndex(conversationMessages.length - 1);
+		if (selectedRowIndex >= rows.length && rows.length > 0) {
+			setSelectedRowIndex(rows.length - 1);
+		}
+	}, [terminalHeight, terminalWidth, maxVisibleMessages, selectedRowIndex, scrollOffset, maxScroll, rows.length]);
+
+	useEffect(() => {
+		let cancelled = false;
+		setCommits(undefined);
+		setCommitsError(null);
+		// Without a start time (epoch 0) git log would walk the whole history
+		if (session.timestamp.getTime() <= 0) {
+			setCommitsError('The session has no start time to look up commits from');
+			return;
+		}
+		getCommitsBetween(session.cwd, session.timestamp, session.lastTimestamp).then(result => {
+			if (!cancelled) setCommits(result);
+		}, err => {
+			if (!cancelled) setCommitsError(`Could not read git log: ${(err as Error).message}`);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [session]);
+
+	useEffect(() => {
+		if (launchStatus) {
+			setStatus(launchStatus);
 		}
-	}, [terminalHeight, terminalWidth, maxVisibleMessages, selectedMessageIndex, scrollOffset, maxScroll, conversationMessages.length]);
+	}, [launchStatus]);
+
+	// Write the conversation to the current directory
+	const runExport = async (format: ExportFormat) => {
+		try {
+			const filePath = await writeExportFile(session, messages, {
+				format,
+				includeThinking: exportThinking,
+				includeTools: exportTools,
+			}, process.cwd());
+			setStatus({ text: `Exported to ${filePath}`, isError: false });
+		} catch (err) {
+			setStatus({ text: `Export failed: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+		}
+	};
+
+	const annotate = (update: Partial<Annotation>) => {
+		onAnnotate?.({ [session.id]: update }).catch(err => {
+			setStatus({ text: `Could not save: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+		});
+	};
 
 	useInput((input, key) => {
-		if (key.escape) {
+		if (launchChoice !== null) {
+			const quickPick = parseInt(input, 10);
+			const launch = (profile: LaunchProfile) => {
+				setLaunchChoice(null);
+				setLaunchFrom(null);
+				if (launchFrom) {
+					onResumeFrom(session, launchFrom.message, profile);
+				} else {
+					onLaunch(session, profile);
+				}
+			};
+			if (key.escape) {
+				setLaunchChoice(null);
+				setLaunchFrom(null);
+			} else if (key.return) {
+				launch(profiles[launchChoice]);
+			} else if (quickPick >= 1 && quickPick <= profiles.length) {
+				launch(profiles[quickPick - 1]);
+			} else if (key.upArrow || input === 'k') {
+				setLaunchChoice(Math.max(0, launchChoice - 1));
+			} else if (key.downArrow || input === 'j') {
+				setLaunchChoice(Math.min(profiles.length - 1, launchChoice + 1));
+			}
+			return;
+		}
+
+		if (exportMenuOpen) {
+			const formats: Record<string, ExportFormat> = { m: 'md', h: 'html', j: 'json' };
+			if (key.escape) {
+				setExportMenuOpen(false);
+			} else if (formats[input]) {
+				setExportMenuOpen(false);
+				runExport(formats[input]);
+			} else if (input === 't') {
+				setExportThinking(prev => !prev);
+			} else if (input === 'x') {
+				setExportTools(prev => !prev);
+			}
+			return;
+		}
+
+		// The / prompt captures all input until it is submitted or cancelled
+		if (searchInput !== null) {
+			if (key.escape) {
+				setSearchInput(null);
+			} else if (key.return) {
+				const term = searchInput.trim();
+				setSearchInput(null);
+				setSearchTerm(term);
+				setSearchError(null);
+				if (term && patternMode === 'regex') {
+					try {
+						compileSearchPattern(term, patternMode);
+					} catch (err) {
+						setSearchError(err instanceof Error ? err.message : 'Invalid regular expression');
+						return;
+					}
+				}
+				// Search from the message before the selection so the selection itself counts
+				jumpToMatch(getMatchIndices(compilePattern(term)), selectedRowIndex - 1, 1);
+			} else if (key.backspace || key.delete) {
+				setSearchInput(prev => (prev ?? '').slice(0, -1));
+			} else if (key.ctrl && input === 'w') {
+				setSearchInput(prev => (prev ?? '').replace(/\s*\S+\s*$/, ''));
+			} else if (input && !key.ctrl && !key.meta) {
+				setSearchInput(prev => (prev ?? '') + input);
+			}
+			return;
+		}
+
+		const pressed = (action: DetailAction) => matchesKey(keys[action], input, key);
+
+		if (pressed('back')) {
 			onBack();
-		} else if (key.return) {
-			onLaunch(session);
-		} else if (key.upArrow || (key.ctrl && input === 'k')) {
-			setSelectedMessageIndex(prev => {
+		} else if (pressed('export')) {
+			setStatus(null);
+			setExportMenuOpen(true);
+		} else if (pressed('open')) {
+			if (rows.length > 0) {
+				setPagerOpen(true);
+			}
+		} else if (pressed('files')) {
+			setPanel(prev => (prev === 'files' ? null : 'files'));
+		} else if (pressed('commits')) {
+			setPanel(prev => (prev === 'commits' ? null : 'commits'));
+		} else if (pressed('lineage')) {
+			setPanel(prev => (prev === 'lineage' ? null : 'lineage'));
+		} else if (pressed('refresh')) {
+			onRefresh?.();
+		} else if (pressed('star')) {
+			if (onAnnotate) {
+				setStatus(null);
+				annotate({ starred: !session.annotation?.starred });
+			}
+		} else if (pressed('editTags')) {
+			if (onAnnotate) {
+				setStatus(null);
+				setEditing('tags');
+			}
+		} else if (pressed('editNote')) {
+			if (onAnnotate) {
+				setStatus(null);
+				setEditing('note');
+			}
+		} else if (pressed('delete')) {
+			if (onRemove) {
+				setStatus(null);
+				setConfirmRemove('trash');
+			}
+		} else if (pressed('archive')) {
+			if (onRemove) {
+				setStatus(null);
+				setConfirmRemove('archive');
+			}
+		} else if (pressed('toggleTools')) {
+			if (toolCallCount > 0) {
+				relayout(!showTools, expandedGroups);
+			}
+		} else if (pressed('expandTools')) {
+			const row = rows[selectedRowIndex];
+			if (row?.kind === 'tool' && row.call.subagent && !row.depth) {
+				toggleSubagent(row);
+			} else if (row && row.kind !== 'message' && !row.depth) {
+				toggleGroup(row);
+			}
+		} else if (pressed('search')) {
+			setSearchInput('');
+		} else if (pressed('nextMatch')) {
+			jumpToMatch(matchIndices, selectedRowIndex, 1);
+		} else if (pressed('prevMatch')) {
+			jumpToMatch(matchIndices, selectedRowIndex, -1);
+		} else if (pressed('launch')) {
+			if (profiles.length > 0) {
+				setStatus(null);
+				setLaunchChoice(Math.max(0, profiles.findIndex(p => p.name === defaultProfile)));
+			}
+		} else if (pressed('resumeHere')) {
+			const row = rows[selectedRowIndex];
+			if (!row || row.kind !== 'message' || row.depth) {
+				setStatus({ text: 'Select a message of the session to resume from', isError: true });
+			} else if (!row.message.uuid) {
+				setStatus({ text: 'This message has no id, so the session cannot be resumed from it', isError: true });
+			} else if (profiles.length > 0) {
+				setStatus(null);
+				setLaunchFrom({ message: row.message, number: row.messageIndex + 1 });
+				// The copy is new, so resuming it in place is the natural choice; forking would copy it again
+				const resume = profiles.findIndex(p => p.name === 'resume');
+				setLaunchChoice(resume >= 0 ? resume : Math.max(0, profiles.findIndex(p => p.name === defaultProfile)));
+			}
+		} else if (pressed('up')) {
+			setSelectedRowIndex(prev => {
 				const newIndex = Math.max(0, prev - 1);
 				// Scroll up if needed
 				if (newIndex < scrollOffset) {
@@ -81,64 +523,64 @@ export function DetailView({ session, onBack, onLaunch }: DetailViewProps) {
 				}
 				return newIndex;
 			});
-		} else if (key.downArrow || (key.ctrl && input === 'j')) {
-			setSelectedMessageIndex(prev => {
-				const newIndex = Math.min(conversationMessages.length - 1, prev + 1);
+		} else if (pressed('down')) {
+			setSelectedRowIndex(prev => {
+				const newIndex = Math.min(rows.length - 1, prev + 1);
 				// Scroll down if needed
 				if (newIndex >= scrollOffset + maxVisibleMessages) {
 					setScrollOffset(newIndex - maxVisibleMessages + 1);
 				}
 				return newIndex;
 			});
-		} else if (key.pageUp || (key.ctrl && input === 'u')) {
-			setSelectedMessageIndex(prev => {
+		} else if (pressed('halfPageUp')) {
+			setSelectedRowIndex(prev => {
 				const newIndex = Math.max(0, prev - Math.floor(maxVisibleMessages / 2));
 				setScrollOffset(Math.max(0, newIndex));
 				return newIndex;
 			});
-		} else if (key.pageDown || (key.ctrl && input === 'd')) {
-			setSelectedMessageIndex(prev => {
-				const newIndex = Math.min(conversationMessages.length - 1, prev + Math.floor(maxVisibleMessages / 2));
+		} else if (pressed('halfPageDown')) {
+			setSelectedRowIndex(prev => {
+				const newIndex = Math.min(rows.length - 1, prev + Math.floor(maxVisibleMessages / 2));
 				setScrollOffset(Math.min(maxScroll, newIndex));
 				return newIndex;
 			});
-		} else if (key.ctrl && input === 'g') {
-			setSelectedMessageIndex(0);
+		} else if (pressed('top')) {
+			setSelectedRowIndex(0);
 			setScrollOffset(0);
-		} else if (key.shift && input === 'G') {
-			setSelectedMessageIndex(conversationMessages.length - 1);
+		} else if (pressed('bottom')) {
+			setSelectedRowIndex(rows.length - 1);
 			setScrollOffset(maxScroll);
 		}
-	});
+	}, { isActive: !pagerOpen && editing === null && confirmRemove === null });
 
-	const visibleMessages = conversationMessages.slice(scrollOffset, scrollOffset + maxVisibleMessages);
+	const visibleRows = rows.slice(scrollOffset, scrollOffset + maxVisibleMessages);
 
-	// Helper to extract full text content from a message
-	const getFullTextContent = (msg: any): string => {
-		const content = msg.message?.content;
-		let textContent = '';
+	const selectedRow = rows[selectedRowIndex];
 
-		if (typeof content === 'string') {
-			textContent = content;
-		} else if (Array.isArray(content)) {
-			textContent = content
-				.map(item => {
-					if ('text' in item) return item.text;
-					return '';
-				})
-				.filter(Boolean)
-				.join('\n\n');
-		}
-
-		return textContent.trim();
-	};
-
-	const selectedMessage = conversationMessages[selectedMessageIndex];
+	if (pagerOpen && selectedRow) {
+		return (
+			<MessagePager
+				title={`${getRowTitle(selectedRow)} (${selectedRowIndex + 1}/${rows.length})`}
+				text={getRowText(selectedRow)}
+				onClose={() => setPagerOpen(false)}
+			/>
+		);
+	}
 
 	return (
 		<Box flexDirection="column" padding={1} height={terminalHeight}>
-			<Box marginBottom={1}>
-				<Text bold color="cyan">Session Details</Text>
+			<Box marginBottom={1} flexDirection="column">
+				<Text wrap="truncate">
+					<Text bold color="cyan">Session Details</Text>
+					{session.annotation?.starred && <Text color="yellow">  ★ starred</Text>}
+					{session.annotation?.tags && <Text color="green">  {formatTags(session.annotation.tags)}</Text>}
+				</Text>
+				{session.annotation?.note && (
+					<Text wrap="truncate">
+						<Text dimColor>Note: </Text>
+						{session.annotation.note.replace(/\s+/g, ' ')}
+					</Text>
+				)}
 			</Box>
 
 			<Box marginBottom={1}>
@@ -151,22 +593,54 @@ export function DetailView({ session, onBack, onLaunch }: DetailViewProps) {
 					<Newline />
 					<Text bold>Session ID:</Text>
 					<Text dimColor> {session.id}</Text>
+					{session.forkOf && (
+						<Text dimColor>
+							{' '}({session.forkOf.relation === 'resume' ? 'resumes' : 'fork of'} {session.forkOf.parentId.slice(0, 8)} after message #{session.forkOf.sharedMessages})
+						</Text>
+					)}
 					<Newline />
 					<Text bold>Messages:</Text>
 					<Text> {conversationMessages.length}</Text>
+					{messageDetails.length > 0 && <Text dimColor> ({messageDetails.join(', ')})</Text>}
+					<Newline />
+					<Text bold>Tokens:</Text>
+					{getTotalTokens(tokens) > 0 ? (
+						<>
+							<Text> {formatTokens(tokens.input)} in, {formatTokens(tokens.output)} out</Text>
+							<Text dimColor> (cache: {formatTokens(tokens.cacheCreation)} written, {formatTokens(tokens.cacheRead)} read)</Text>
+							<Text> • Cost: </Text>
+							<Text color="green">{formatCost(cost)}</Text>
+							{cost.unpriced.length > 0 && <Text dimColor> (no price for {cost.unpriced.join(', ')})</Text>}
+						</>
+					) : (
+						<Text dimColor> -</Text>
+					)}
+					<Newline />
+					<Text bold>Branch:</Text>
+					<Text color="magenta"> {session.branches.length > 0 ? session.branches.join(', ') : '-'}</Text>
+					{commits && <Text dimColor> ({commits.length} commit{commits.length !== 1 ? 's' : ''} during the session)</Text>}
 				</Text>
 			</Box>
 
 			<Box marginBottom={1}>
 				<Text bold>Conversation:</Text>
+				{searchError ? (
+					<Text color="red"> {searchError}</Text>
+				) : searchTerm ? (
+					<Text dimColor>
+						{' '}{matchIndices.length === 0
+							? `no matches for "${searchTerm}"`
+							: `${matchIndices.includes(selectedRowIndex) ? `match ${matchIndices.indexOf(selectedRowIndex) + 1}/` : ''}${matchIndices.length} matching row${matchIndices.length !== 1 ? 's' : ''} for "${searchTerm}"`}
+					</Text>
+				) : null}
 			</Box>
 
 			<Box flexDirection="column" marginBottom={1} minHeight={maxVisibleMessages}>
-				{visibleMessages.map((msg, displayIndex) => {
+				{visibleRows.map((row, displayIndex) => {
 					const absoluteIndex = scrollOffset + displayIndex;
-					const isSelected = absoluteIndex === selectedMessageIndex;
-					const role = msg.message?.role || msg.type;
-					const fullText = getFullTextContent(msg);
+					const isSelected = absoluteIndex === selectedRowIndex;
+					const role = getRowLabel(row);
+					const fullText = getRowListText(row);
 
 					// Skip messages with no text content
 					if (!fullText) {
@@ -177,11 +651,13 @@ export function DetailView({ session, onBack, onLaunch }: DetailViewProps) {
 					const cleanText = fullText.replace(/\s+/g, ' ').trim();
 					const availableWidth = terminalWidth - 29;
 					const maxPreviewLength = Math.max(30, Math.min(availableWidth, 150));
-					const preview = cleanText.slice(0, maxPreviewLength);
-					const roleColor = role === 'user' ? 'yellow' : role === 'assistant' ? 'blue' : 'gray';
+					// Subagent rows hang off the call that started them
+					const indent = (row.depth ? '│ ' : '') + (row.kind === 'tool' ? '  ' : '');
+					const preview = indent + cleanText.slice(0, maxPreviewLength);
+					const roleColor = role === 'user' ? 'yellow' : role === 'assistant' ? 'blue' : role.endsWith('tools') || role.endsWith('agent') ? 'magenta' : 'gray';
 
 					return (
-						<Box key={msg.uuid || displayIndex} marginBottom={0} flexWrap="nowrap">
+						<Box key={row.key} marginBottom={0} flexWrap="nowrap">
 							<Text
 								color={isSelected ? 'white' : roleColor}
 								bold
@@ -194,53 +670,187 @@ export function DetailView({ session, onBack, onLaunch }: DetailViewProps) {
 								color={isSelected ? 'white' : undefined}
 								backgroundColor={isSelected ? 'blue' : undefined}
 							>
-								{' '}{preview}{preview.length < cleanText.length && '...'}
+								{' '}<HighlightedText segments={highlightMatches(preview, searchPattern)} highlightColor={isSelected ? 'yellowBright' : 'yellow'} />{cleanText.length > maxPreviewLength && '...'}
 							</Text>
 						</Box>
 					);
 				})}
 				{/* Fill empty space for consistent layout */}
-				{visibleMessages.length < maxVisibleMessages && Array.from({ length: maxVisibleMessages - visibleMessages.length }).map((_, i) => (
+				{visibleRows.length < maxVisibleMessages && Array.from({ length: maxVisibleMessages - visibleRows.length }).map((_, i) => (
 					<Box key={`empty-${i}`}>
 						<Text> </Text>
 					</Box>
 				))}
 			</Box>
 
-			{conversationMessages.length > maxVisibleMessages && (
+			{rows.length > maxVisibleMessages && (
 				<Box marginBottom={1}>
 					<Text dimColor>
-						Showing {scrollOffset + 1}-{Math.min(scrollOffset + maxVisibleMessages, conversationMessages.length)} of {conversationMessages.length} messages
+						Showing {scrollOffset + 1}-{Math.min(scrollOffset + maxVisibleMessages, rows.length)} of {rows.length} rows
 					</Text>
 				</Box>
 			)}
 
-			{/* Message preview panel */}
-			{selectedMessage && (
+			{/* Launch profile chooser, shown in place of the preview */}
+			{launchChoice !== null ? (
+				<Box marginBottom={1} flexDirection="column" borderStyle="single" borderColor="green" paddingX={1}>
+					<Text bold color="green">
+						{launchFrom ? `Resume a copy ending at message #${launchFrom.number} with profile:` : 'Launch with profile:'}
+					</Text>
+					{profiles.map((profile, i) => {
+						const isSelected = i === launchChoice;
+						return (
+							<Text key={profile.name} wrap="truncate">
+								<Text color={isSelected ? 'white' : undefined} backgroundColor={isSelected ? 'green' : undefined} bold={isSelected}>
+									{isSelected ? '> ' : '  '}{i < 9 ? `${i + 1}. ` : '   '}{profile.name}
+								</Text>
+								{profile.name === defaultProfile && <Text color="yellow"> (default)</Text>}
+								<Text dimColor>  {profile.description || [profile.command, ...profile.args].join(' ')}</Text>
+							</Text>
+						);
+					})}
+				</Box>
+			) : panel === 'commits' ? (
+				<Box marginBottom={1} flexDirection="column" borderStyle="single" borderColor="magenta" paddingX={1}>
+					<Text bold color="magenta">Commits during the session{commits ? ` (${commits.length})` : ''}</Text>
+					{commitsError && <Text color="red">{commitsError}</Text>}
+					{commits === undefined && !commitsError && <Text dimColor>Reading git log…</Text>}
+					{commits === null && <Text dimColor>{session.cwd} is not a git repository</Text>}
+					{commits?.length === 0 && (
+						<Text dimColor>No commits between {session.timestamp.toLocaleString()} and {session.lastTimestamp.toLocaleString()}</Text>
+					)}
+					{commits?.slice(0, panelItemCount(commits.length)).map(commit => (
+						<Text key={commit.hash} wrap="truncate">
+							<Text color="yellow">{commit.shortHash}</Text>
+							<Text dimColor> {commit.date.toLocaleString()}</Text>
+							{' '}{commit.subject}
+						</Text>
+					))}
+					{commits && commits.length > previewMaxLines && (
+						<Text dimColor>… and {commits.length - panelItemCount(commits.length)} more</Text>
+					)}
+				</Box>
+			) : panel === 'lineage' ? (
+				<Box marginBottom={1} flexDirection="column" borderStyle="single" borderColor="magenta" paddingX={1}>
+					<Text bold color="magenta">Lineage{lineage.length > 1 ? ` (${lineage.length} sessions)` : ''}</Text>
+					{lineage.length <= 1 && <Text dimColor>This session was not forked or resumed</Text>}
+					{lineage.length > 1 && lineage.slice(0, panelItemCount(lineage.length)).map(({ session: member, depth }) => {
+						const isCurrent = member.id === session.id;
+						const origin = member.forkOf
+							? `${member.forkOf.relation === 'resume' ? 'resumed' : 'forked'} after message #${member.forkOf.sharedMessages}`
+							: 'origin';
+						return (
+							<Text key={member.id} wrap="truncate">
+								<Text color="cyan">{depth > 0 ? `${'  '.repeat(depth - 1)}└ ` : ''}</Text>
+								<Text bold={isCurrent} color={isCurrent ? 'yellow' : undefined}>{member.id.slice(0, 8)}</Text>
+								<Text dimColor>  {member.lastTimestamp.toLocaleString()}  {member.messageCount} msgs  </Text>
+								{origin}
+								{isCurrent && <Text color="yellow">  ← this session</Text>}
+							</Text>
+						);
+					})}
+					{lineage.length > previewMaxLines && (
+						<Text dimColor>… and {lineage.length - panelItemCount(lineage.length)} more</Text>
+					)}
+				</Box>
+			) : panel === 'files' ? (
+				<Box marginBottom={1} flexDirection="column" borderStyle="single" borderColor="magenta" paddingX={1}>
+					<Text bold color="magenta">Files touched ({session.files.length})</Text>
+					{session.files.length === 0 && <Text dimColor>No files were read or changed by tool calls</Text>}
+					{sortFilesByChanges(session.files).slice(0, panelItemCount(session.files.length)).map(file => {
+						// Long paths lose their start rather than the file name
+						const displayPath = getDisplayPath(file.path, session.cwd);
+						const pathWidth = Math.max(10, terminalWidth - 26);
+						const changed = !!(file.operations.write || file.operations.edit);
+						return (
+							<Text key={file.path} wrap="truncate">
+								<Text color={changed ? 'yellow' : undefined} dimColor={!changed}>
+									{formatOperations(file.operations).padEnd(18)}
+								</Text>
+								{displayPath.length > pathWidth ? '…' + displayPath.slice(-(pathWidth - 1)) : displayPath}
+							</Text>
+						);
+					})}
+					{session.files.length > previewMaxLines && (
+						<Text dimColor>… and {session.files.length - panelItemCount(session.files.length)} more</Text>
+					)}
+				</Box>
+			) : selectedRow && (
 				<Box marginBottom={1} flexDirection="column" borderStyle="single" borderColor="cyan" padding={1}>
 					<Box marginBottom={1}>
 						<Text bold color="cyan">
-							{selectedMessage.message?.role || selectedMessage.type} ({selectedMessageIndex + 1}/{conversationMessages.length})
+							{getRowTitle(selectedRow)} ({selectedRowIndex + 1}/{rows.length})
 						</Text>
 					</Box>
 					<Box flexDirection="column">
 						<Text wrap="wrap">
 							{(() => {
-								const fullText = getFullTextContent(selectedMessage);
+								const fullText = getRowText(selectedRow);
 								const lines = fullText.split('\n');
-								const displayLines = lines.slice(0, previewMaxLines);
-								const needsEllipsis = lines.length > previewMaxLines;
-								return displayLines.join('\n') + (needsEllipsis ? '\n...' : '');
+								// Start the preview a little above the first matching line so the match is visible
+								const firstMatchLine = searchPattern
+									? lines.findIndex(line => findMatches(searchPattern, line).count > 0)
+									: -1;
+								const startLine = firstMatchLine >= previewMaxLines ? firstMatchLine - 2 : 0;
+								const displayLines = lines.slice(startLine, startLine + previewMaxLines);
+								const needsEllipsis = lines.length > startLine + previewMaxLines;
+								const displayText = (startLine > 0 ? '...\n' : '') + displayLines.join('\n') + (needsEllipsis ? '\n...' : '');
+								return <HighlightedText segments={highlightMatches(displayText, searchPattern)} />;
 							})()}
 						</Text>
 					</Box>
 				</Box>
 			)}
 
-			<Box marginTop={1}>
-				<Text dimColor>
-					↑/↓: Navigate | Ctrl+U/D: Half-page | g/G: Top/Bottom | Enter: Fork in Claude | Esc: Back | Ctrl+C: Exit
-				</Text>
+			{status && (
+				<Box>
+					<Text color={status.isError ? 'red' : 'green'}>{status.text}</Text>
+				</Box>
+			)}
+
+			<Box marginTop={status ? 0 : 1}>
+				{editing ? (
+					<AnnotationPrompt
+						label={editing === 'tags' ? 'Tags' : 'Note'}
+						initialValue={editing === 'tags' ? formatTags(session.annotation?.tags) : session.annotation?.note ?? ''}
+						hint={editing === 'tags' ? 'Separate with spaces' : undefined}
+						onSubmit={value => {
+							setEditing(null);
+							annotate(editing === 'tags' ? { tags: parseTags(value) } : { note: value.trim() });
+						}}
+						onCancel={() => setEditing(null)}
+					/>
+				) : confirmRemove ? (
+					<ConfirmPrompt
+						message={`Move this session to the ${confirmRemove}?`}
+						onConfirm={() => {
+							setConfirmRemove(null);
+							onRemove?.([session], confirmRemove).catch(err => {
+								setStatus({ text: `Could not move: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+							});
+						}}
+						onCancel={() => setConfirmRemove(null)}
+					/>
+				) : launchChoice !== null ? (
+					<Text dimColor>↑/↓: Choose profile | 1-9: Launch directly | Enter: Launch | Esc: Cancel</Text>
+				) : exportMenuOpen ? (
+					<Text>
+						<Text color="cyan">Export as: </Text>
+						<Text>m: Markdown | h: HTML | j: JSON</Text>
+						<Text dimColor> | t: Thinking [{exportThinking ? 'on' : 'off'}] | x: Tool calls [{exportTools ? 'on' : 'off'}] | Esc: Cancel</Text>
+					</Text>
+				) : searchInput !== null ? (
+					<Text>
+						<Text color="cyan">/</Text>
+						<Text color="yellow">{searchInput}</Text>
+						<Text color="gray">_</Text>
+						<Text dimColor>  Enter: Find | Esc: Cancel</Text>
+					</Text>
+				) : (
+					<Text dimColor>
+						{helpText}
+					</Text>
+				)}
 			</Box>
 		</Box>
 	);
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Text } from 'ink';
+import { TextSegment } from '../utils/snippets.js';
+
+interface HighlightedTextProps {
+	segments: TextSegment[];
+	highlightColor?: string;
+}
+
+// Render text segments inline, emphasizing the matched parts. Meant to be
+// nested inside a <Text> so it inherits the surrounding colors.
+export function HighlightedText({ segments, highlightColor = 'yellow' }: HighlightedTextProps) {
+	return (
+		<>
+			{segments.map((segment, i) => segment.highlighted
+				? <Text key={i} bold underline color={highlightColor}>{segment.text}</Text>
+				: <Text key={i}>{segment.text}</Text>
+			)}
+		</>
+	);
+}
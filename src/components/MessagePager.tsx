@@ -0,0 +1,87 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import { renderMarkdown } from '../utils/markdown.js';
+
+interface MessagePagerProps {
+	title: string;
+	text: string;
+	onClose: () => void;
+}
+
+// Full-screen scrollable view of a single message, rendered as markdown
+export function MessagePager({ title, text, onClose }: MessagePagerProps) {
+	const [scrollOffset, setScrollOffset] = useState(0);
+	const { stdout } = useStdout();
+
+	const terminalHeight = stdout?.rows || 24;
+	const terminalWidth = stdout?.columns || 120;
+	// Overhead: padding (2) + title (2) + footer (2)
+	const uiOverhead = 6;
+	const pageHeight = Math.max(3, terminalHeight - uiOverhead);
+	const contentWidth = Math.max(20, terminalWidth - 4);
+
+	const lines = useMemo(() => renderMarkdown(text, contentWidth), [text, contentWidth]);
+	const maxScroll = Math.max(0, lines.length - pageHeight);
+
+	// Keep the scroll position valid when the terminal is resized
+	useEffect(() => {
+		if (scrollOffset > maxScroll) {
+			setScrollOffset(maxScroll);
+		}
+	}, [scrollOffset, maxScroll]);
+
+	useInput((input, key) => {
+		if (key.escape || input === 'q') {
+			onClose();
+		} else if (key.upArrow || input === 'k') {
+			setScrollOffset(prev => Math.max(0, prev - 1));
+		} else if (key.downArrow || input === 'j') {
+			setScrollOffset(prev => Math.min(maxScroll, prev + 1));
+		} else if (key.pageUp || (key.ctrl && input === 'u')) {
+			setScrollOffset(prev => Math.max(0, prev - Math.floor(pageHeight / 2)));
+		} else if (key.pageDown || (key.ctrl && input === 'd') || input === ' ') {
+			setScrollOffset(prev => Math.min(maxScroll, prev + Math.floor(pageHeight / 2)));
+		} else if (input === 'g') {
+			setScrollOffset(0);
+		} else if (input === 'G') {
+			setScrollOffset(maxScroll);
+		}
+	});
+
+	const visibleLines = lines.slice(scrollOffset, scrollOffset + pageHeight);
+	const percent = maxScroll === 0 ? 100 : Math.round((scrollOffset / maxScroll) * 100);
+
+	return (
+		<Box flexDirection="column" padding={1} height={terminalHeight}>
+			<Box marginBottom={1}>
+				<Text bold color="cyan">{title}</Text>
+				<Text dimColor>  lines {Math.min(lines.length, scrollOffset + 1)}-{Math.min(lines.length, scrollOffset + pageHeight)} of {lines.length} ({percent}%)</Text>
+			</Box>
+
+			<Box flexDirection="column" height={pageHeight}>
+				{visibleLines.map((line, i) => (
+					<Text key={scrollOffset + i} wrap="truncate-end">
+						{line.length === 0 ? ' ' : line.map((span, j) => (
+							<Text
+								key={j}
+								bold={span.bold}
+								italic={span.italic}
+								underline={span.underline}
+								dimColor={span.dim}
+								color={span.color}
+							>
+								{span.text}
+							</Text>
+						))}
+					</Text>
+				))}
+			</Box>
+
+			<Box marginTop={1}>
+				<Text dimColor>
+					j/k: Scroll | Ctrl+U/D: Half-page | g/G: Top/Bottom | Esc: Back
+				</Text>
+			</Box>
+		</Box>
+	);
+}
@@ -1,25 +1,203 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Box, Text, Newline, useInput, useStdout } from 'ink';
-import Fuse from 'fuse.js';
-import { Session, getAllText } from '../utils/sessionScanner.js';
+import Spinner from 'ink-spinner';
+import { Session, ScanProgress } from '../utils/sessionScanner.js';
+import { loadSessionMessages } from '../utils/messageLoader.js';
+import { writeExportFile, ExportFormat } from '../utils/exporter.js';
+import { copyToClipboard } from '../utils/clipboard.js';
+import { rankSessions, getPatternError, nextSearchMode, SearchMode, SearchMatch, RankingOptions, DEFAULT_RANKING } from '../utils/ranking.js';
+import { buildSnippet, buildContextLines, padSegments } from '../utils/snippets.js';
+import { HighlightedText } from './HighlightedText.js';
+import { AnnotationPrompt } from './AnnotationPrompt.js';
+import { ConfirmPrompt } from './ConfirmPrompt.js';
+import { parseQuery, ParsedQuery } from '../utils/queryParser.js';
+import { collapseForks, getLineageRoot } from '../utils/lineage.js';
+import { buildProjectTree, toSessionRows, ListRow } from '../utils/projectTree.js';
+import { findRepoRoot } from '../utils/git.js';
+import { Annotation, parseTags, formatTags } from '../utils/annotations.js';
+import { RemoveDestination } from '../utils/trash.js';
+import { getSessionUsage, getTotalUsage, getTotalTokens, estimateCost, formatCost, PriceTable, DEFAULT_PRICES } from '../utils/usage.js';
+import { ActiveSearch, StatusMessage } from '../utils/types.js';
+import { KeyMap, SearchAction, DEFAULT_KEY_BINDINGS, matchesKey, keyLabel, keyPairLabel, formatHelp } from '../utils/keys.js';
+
+// Active filters as chips, plus any errors from malformed filter tokens or patterns
+function QueryFilters({ parsedQuery, errors }: { parsedQuery: ParsedQuery; errors: string[] }) {
+	if (parsedQuery.filters.length === 0 && parsedQuery.excludes.length === 0 && errors.length === 0) {
+		return null;
+	}
+
+	return (
+		<Box flexDirection="column" marginBottom={1}>
+			{(parsedQuery.filters.length > 0 || parsedQuery.excludes.length > 0) && (
+				<Box>
+					{parsedQuery.filters.map((filter, i) => (
+						<Box key={`filter-${i}`} marginRight={1}>
+							<Text backgroundColor="cyan" color="black"> {filter.key}:{filter.value} </Text>
+						</Box>
+					))}
+					{parsedQuery.excludes.map((term, i) => (
+						<Box key={`exclude-${i}`} marginRight={1}>
+							<Text backgroundColor="red" color="white"> -{term} </Text>
+						</Box>
+					))}
+				</Box>
+			)}
+			{errors.map((error, i) => (
+				<Text key={`error-${i}`} color="red">✗ {error}</Text>
+			))}
+		</Box>
+	);
+}
+
+// Scan progress for the header, then what the scan had to skip
+function ScanStatus({ progress }: { progress?: ScanProgress | null }) {
+	if (!progress) return null;
+	const skipped = [
+		progress.malformedLines > 0 ? `${progress.malformedLines} malformed line${progress.malformedLines !== 1 ? 's' : ''}` : '',
+		progress.unreadableFiles > 0 ? `${progress.unreadableFiles} unreadable file${progress.unreadableFiles !== 1 ? 's' : ''}` : '',
+	].filter(Boolean);
+	return (
+		<>
+			{!progress.done && (
+				<Text color="cyan">
+					{' '}<Spinner type="dots" /> Scanning {progress.filesScanned}/{progress.filesTotal} files
+				</Text>
+			)}
+			{skipped.length > 0 && <Text color="yellow"> ({skipped.join(', ')} skipped)</Text>}
+		</>
+	);
+}
 
 interface SearchViewProps {
 	sessions: Session[];
-	onSelectSession: (session: Session) => void;
+	scanProgress?: ScanProgress | null; // Set while sessions are still being found, and after for what was skipped
+	onSelectSession: (session: Session, search: ActiveSearch) => void;
+	onRefresh?: () => void; // Scan for new and changed sessions
+	onAnnotate?: (updates: Record<string, Partial<Annotation>>) => Promise<void>; // Save stars, tags or notes by session id
+	onRemove?: (sessions: Session[], destination: RemoveDestination) => Promise<void>; // Move sessions to the trash or archive
+	onShowStats?: (search: ActiveSearch) => void; // Open the usage statistics, keeping the search to come back to
+	status?: StatusMessage | null; // Reported by the app, e.g. for a session removed in the detail view
 	initialQuery?: string;
+	initialMode?: SearchMode;
+	ranking?: RankingOptions;
+	keys?: KeyMap<SearchAction>;
+	prices?: PriceTable;
+}
+
+// The cost column is hidden, shown, or shown with the list sorted by it
+type CostColumn = 'hidden' | 'shown' | 'sorted';
+
+// A fork or resume listed under its family's row
+function isForkRow(row: ListRow): boolean {
+	return row.kind === 'session' && row.depth > 0;
 }
 
-export function SearchView({ sessions, onSelectSession, initialQuery = '' }: SearchViewProps) {
+export function SearchView({
+	sessions,
+	scanProgress,
+	onSelectSession,
+	onRefresh,
+	onAnnotate,
+	onRemove,
+	onShowStats,
+	status: appStatus,
+	initialQuery = '',
+	initialMode = 'fuzzy',
+	ranking = DEFAULT_RANKING,
+	keys = DEFAULT_KEY_BINDINGS.search,
+	prices = DEFAULT_PRICES,
+}: SearchViewProps) {
 	const [query, setQuery] = useState(initialQuery);
 	const [selectedIndex, setSelectedIndex] = useState(0);
 	const [scrollOffset, setScrollOffset] = useState(0);
 	const [filteredSessions, setFilteredSessions] = useState<Session[]>(sessions);
+	const [matches, setMatches] = useState<Map<string, SearchMatch>>(new Map());
+	const [searchMode, setSearchMode] = useState<SearchMode>(initialMode);
+	const [showContext, setShowContext] = useState(false);
+	const [expandedForks, setExpandedForks] = useState<Set<string>>(new Set()); // Ids of families' origins
+	const [groupByProject, setGroupByProject] = useState(false);
+	const [expandedProjects, setExpandedProjects] = useState<Set<string>>(new Set()); // Project roots
+	const [projectRoots, setProjectRoots] = useState<Map<string, string>>(new Map()); // Repository root by cwd, once found
+	const [starredFirst, setStarredFirst] = useState(ranking.starredFirst);
+	const [costColumn, setCostColumn] = useState<CostColumn>('hidden');
+	const [editing, setEditing] = useState<'tags' | 'note' | null>(null); // Set while the tags or note prompt is open
+	// Set while asking to confirm, with the sessions to move
+	const [confirmRemove, setConfirmRemove] = useState<{ destination: RemoveDestination; sessions: Session[] } | null>(null);
+	const [exportMenuOpen, setExportMenuOpen] = useState(false);
+	// Sessions marked for bulk actions. Ids are kept, so marks survive changing the query and rescans.
+	const [markedIds, setMarkedIds] = useState<Set<string>>(new Set());
+	const [status, setStatus] = useState<StatusMessage | null>(appStatus ?? null);
 	const { stdout } = useStdout();
 
+	const sessionsById = useMemo(() => new Map(sessions.map(session => [session.id, session])), [sessions]);
+	// Estimated only while the cost column is shown
+	const costs = useMemo(
+		() => costColumn === 'hidden' ? null : new Map(sessions.map(session => [session.id, estimateCost(getSessionUsage(session), prices)])),
+		[sessions, prices, costColumn],
+	);
+	// Forks and resumes are listed under their origin, and when grouped, sessions under their project
+	const listRows = useMemo(
+		() => groupByProject
+			? buildProjectTree(filteredSessions, projectRoots, expandedProjects, expandedForks, sessionsById)
+			: toSessionRows(collapseForks(filteredSessions, expandedForks, sessionsById)),
+		[filteredSessions, expandedForks, sessionsById, groupByProject, projectRoots, expandedProjects],
+	);
+	const selectedRow: ListRow | undefined = listRows[selectedIndex];
+	const selectedSession = selectedRow?.kind === 'session' ? selectedRow.session : undefined;
+	const marked = useMemo(() => sessions.filter(session => markedIds.has(session.id)), [sessions, markedIds]);
+	const unlistedMarks = useMemo(() => {
+		const listed = new Set(filteredSessions.map(session => session.id));
+		return marked.filter(session => !listed.has(session.id)).length;
+	}, [marked, filteredSessions]);
+	// Bulk actions apply to the marked sessions, or else to the selected one
+	const targets = marked.length > 0 ? marked : selectedSession ? [selectedSession] : [];
+
+	// Split filter tokens (dir:, after:, -word, ...) from the free text
+	const parsedQuery = useMemo(() => parseQuery(query, { literal: searchMode !== 'fuzzy' }), [query, searchMode]);
+	const patternError = getPatternError(parsedQuery.text, searchMode);
+	const queryErrors = patternError ? [...parsedQuery.errors, patternError] : parsedQuery.errors;
+	const hasChips = parsedQuery.filters.length > 0 || parsedQuery.excludes.length > 0;
+	const filterRows = hasChips || queryErrors.length > 0
+		? (hasChips ? 1 : 0) + queryErrors.length + 1
+		: 0;
+
 	// Calculate available space for results
 	const terminalHeight = stdout?.rows || 24;
 	const terminalWidth = stdout?.columns || 120;
-	const uiOverhead = 8; // Header, search box, status, footer, etc.
+	const contextLineCount = 3;
+	const contextRows = showContext ? contextLineCount + 1 : 0;
+	const helpText = formatHelp([
+		[keyPairLabel(keys.up, keys.down), 'Navigate'],
+		[keyPairLabel(keys.halfPageUp, keys.halfPageDown), 'Half-page'],
+		[keyPairLabel(keys.top, keys.bottom), 'Top/Bottom'],
+		[keyLabel(keys.select), 'Details'],
+		[keyLabel(keys.cycleMode), 'Mode'],
+		[keyLabel(keys.toggleContext), 'Context'],
+		[keyLabel(keys.toggleForks), 'Forks'],
+		[keyLabel(keys.toggleProjects), groupByProject ? 'By project [on]' : 'By project [off]'],
+		[groupByProject ? keyPairLabel(keys.expand, keys.collapse) : '', 'Expand/Collapse'],
+		[onRefresh ? keyLabel(keys.refresh) : '', 'Refresh'],
+		[keyLabel(keys.toggleSelect), 'Select'],
+		[keyLabel(keys.selectAll), 'Select all'],
+		[marked.length > 0 ? keyLabel(keys.clearSelection) : '', 'Clear selection'],
+		[onAnnotate ? keyLabel(keys.star) : '', 'Star'],
+		[onAnnotate ? keyLabel(keys.editTags) : '', marked.length > 0 ? 'Add tags' : 'Tags'],
+		[onAnnotate ? keyLabel(keys.editNote) : '', 'Note'],
+		[keyLabel(keys.toggleStarredFirst), starredFirst ? 'Starred first [on]' : 'Starred first [off]'],
+		[keyLabel(keys.cycleCost), `Cost [${costColumn === 'hidden' ? 'off' : costColumn === 'shown' ? 'on' : 'sorted'}]`],
+		[keyLabel(keys.export), 'Export'],
+		[keyLabel(keys.copyIds), 'Copy ids'],
+		[onRemove ? keyLabel(keys.delete) : '', 'Trash'],
+		[onRemove ? keyLabel(keys.archive) : '', 'Archive'],
+		[onShowStats ? keyLabel(keys.stats) : '', 'Stats'],
+		[keyLabel(keys.deleteWord), 'Delete word'],
+		['Ctrl+C', 'Exit'],
+	]);
+	// The help line wraps on narrower terminals
+	const helpRows = Math.ceil(helpText.length / Math.max(1, terminalWidth - 2));
+	// The details show the selected session's note on a line of its own
+	const noteRows = filteredSessions.some(session => session.annotation?.note) ? 1 : 0;
+	const uiOverhead = 11 + helpRows + filterRows + contextRows + noteRows; // Padding, header, search box, column header, details, help, plus optional rows
 	const maxVisibleRows = Math.max(5, terminalHeight - uiOverhead);
 
 	// Adjust scroll position on terminal resize to keep selection visible
@@ -30,75 +208,89 @@ export function SearchView({ sessions, onSelectSession, initialQuery = '' }: Sea
 			setScrollOffset(Math.max(0, selectedIndex - maxVisibleRows + 1));
 		}
 		// Also ensure scroll doesn't exceed bounds
-		const maxScroll = Math.max(0, filteredSessions.length - maxVisibleRows);
+		const maxScroll = Math.max(0, listRows.length - maxVisibleRows);
 		if (scrollOffset > maxScroll) {
 			setScrollOffset(maxScroll);
 		}
-	}, [terminalHeight, terminalWidth, maxVisibleRows, selectedIndex, scrollOffset, filteredSessions.length]);
+	}, [terminalHeight, terminalWidth, maxVisibleRows, selectedIndex, scrollOffset, listRows.length]);
 
-	// Set up fuzzy search with combined scoring
+	// The search the list was last ranked for, and the session to keep selected
+	// when only the sessions changed
+	const rankedFor = useRef<{ parsedQuery: ParsedQuery; searchMode: SearchMode; ranking: RankingOptions; starredFirst: boolean; sortByCost: boolean } | null>(null);
+	const keepSelected = useRef<{ id: string; index: number; ranked: Session[] } | null>(null);
+
+	// Rank sessions with fuzzy search and combined scoring
 	useEffect(() => {
-		if (!query.trim()) {
-			setFilteredSessions(sessions);
+		const ranked = rankSessions(sessions, parsedQuery, searchMode, { ...ranking, starredFirst });
+		const nextMatches = new Map<string, SearchMatch>();
+		for (const result of ranked) {
+			if (result.match) {
+				nextMatches.set(result.session.id, result.match);
+			}
+		}
+		const rankedSessions = ranked.map(r => r.session);
+		const sortByCost = costColumn === 'sorted' && costs !== null;
+		if (sortByCost) {
+			// Most expensive first; sessions without a price by their token count
+			const tokens = (session: Session) => getTotalTokens(getTotalUsage(getSessionUsage(session)));
+			rankedSessions.sort((a, b) => costs.get(b.id)!.cost - costs.get(a.id)!.cost || tokens(b) - tokens(a));
+		}
+		setFilteredSessions(rankedSessions);
+		setMatches(nextMatches);
+
+		const previous = rankedFor.current;
+		rankedFor.current = { parsedQuery, searchMode, ranking, starredFirst, sortByCost };
+		if (previous && previous.parsedQuery === parsedQuery && previous.searchMode === searchMode && previous.ranking === ranking && previous.starredFirst === starredFirst && previous.sortByCost === sortByCost) {
+			// New sessions (e.g. from a scan in progress) keep the selection on the same session
+			keepSelected.current = selectedSession ? { id: selectedSession.id, index: selectedIndex, ranked: rankedSessions } : null;
+		} else {
 			setSelectedIndex(0);
 			setScrollOffset(0);
-			return;
 		}
+	}, [parsedQuery, searchMode, sessions, ranking, starredFirst, costs]);
 
-		const fuse = new Fuse(sessions, {
-			keys: [
-				{ name: 'firstMessage', weight: 2 },
-				{ name: 'directory', weight: 1 },
-				{ name: 'cwd', weight: 1 },
-			],
-			threshold: 0.4,
-			includeScore: true,
-			getFn: (obj, path) => {
-				if (path[0] === 'firstMessage') {
-					return getAllText(obj as Session);
-				}
-				return (obj as any)[path[0]];
-			},
-		});
-
-		const results = fuse.search(query);
-
-		// Calculate combined score: search (70%) + distance (20%) + recency (10%)
-		const now = Date.now();
-		const maxDistance = Math.max(...sessions.map(s => s.distance || 0), 1);
-		const maxAge = Math.max(...sessions.map(s => now - s.timestamp.getTime()), 1);
-
-		const scoredResults = results.map(result => {
-			const searchScore = result.score || 0; // 0 = perfect match, 1 = worst match
-			const distanceScore = (result.item.distance || 0) / maxDistance; // 0 = same dir, 1 = farthest
-			const ageScore = (now - result.item.timestamp.getTime()) / maxAge; // 0 = newest, 1 = oldest
-
-			// Combined score (lower is better)
-			const combinedScore = (searchScore * 0.7) + (distanceScore * 0.2) + (ageScore * 0.1);
+	useEffect(() => {
+		const keep = keepSelected.current;
+		if (!keep || keep.ranked !== filteredSessions) return;
+		const index = listRows.findIndex(row => row.kind === 'session' && row.session.id === keep.id);
+		keepSelected.current = null;
+		if (index >= 0) {
+			// Scroll along, so the selection stays in the same place on screen
+			setScrollOffset(prev => Math.max(0, prev + index - keep.index));
+			setSelectedIndex(index);
+		}
+	}, [listRows]);
 
-			return { ...result, combinedScore };
+	// Find the repository root of each session's cwd while grouping by project.
+	// Sessions are grouped by their cwd until it is found.
+	useEffect(() => {
+		if (!groupByProject) return;
+		const missing = [...new Set(sessions.map(session => session.cwd))].filter(cwd => !projectRoots.has(cwd));
+		if (missing.length === 0) return;
+		let cancelled = false;
+		Promise.all(missing.map(async cwd => [cwd, (await findRepoRoot(cwd)) ?? cwd] as const)).then(found => {
+			if (!cancelled) setProjectRoots(prev => new Map([...prev, ...found]));
 		});
-
-		// Sort by combined score
-		scoredResults.sort((a, b) => a.combinedScore - b.combinedScore);
-
-		setFilteredSessions(scoredResults.map(r => r.item));
-		setSelectedIndex(0);
-		setScrollOffset(0);
-	}, [query, sessions]);
+		return () => {
+			cancelled = true;
+		};
+	}, [groupByProject, sessions]);
 
 	// Ensure selectedIndex is always within bounds
 	useEffect(() => {
-		if (selectedIndex >= filteredSessions.length && filteredSessions.length > 0) {
-			setSelectedIndex(filteredSessions.length - 1);
+		if (selectedIndex >= listRows.length && listRows.length > 0) {
+			setSelectedIndex(listRows.length - 1);
 		}
-	}, [filteredSessions, selectedIndex]);
+	}, [listRows, selectedIndex]);
 
 	// Calculate responsive column widths with safety margin
 	const minWidth = 80;
 	const isNarrow = terminalWidth < 100;
 	const safetyMargin = 5; // Extra buffer to prevent wrapping
-	const fixedWidth = 2 + 1 + 6 + 1 + 1 + 8 + safetyMargin; // selector + spaces + msgCount + time + margin
+	const branchWidth = isNarrow ? 12 : 18;
+	const msgCountWidth = 8; // Message count, plus ↳N for subagents
+	const costWidth = costs ? 9 : 0;
+	const fixedWidth = 2 + 1 + msgCountWidth + 1 + (costWidth ? costWidth + 1 : 0) + branchWidth + 1 + 1 + 8 + safetyMargin; // selector + spaces + msgCount + cost + branch + time + margin
 	const availableWidth = Math.max(45, terminalWidth - fixedWidth);
 
 	// Distribute available width between message and directory
@@ -106,7 +298,6 @@ export function SearchView({ sessions, onSelectSession, initialQuery = '' }: Sea
 		? Math.max(25, Math.floor(availableWidth * 0.65))
 		: Math.max(35, Math.min(58, Math.floor(availableWidth * 0.65)));
 	const dirWidth = Math.max(12, availableWidth - messageWidth);
-	const msgCountWidth = 6;
 	const timeWidth = 8;
 
 	// Update scroll offset when selection changes
@@ -118,37 +309,211 @@ export function SearchView({ sessions, onSelectSession, initialQuery = '' }: Sea
 		}
 	}, [selectedIndex, maxVisibleRows]);
 
+	useEffect(() => {
+		if (appStatus) {
+			setStatus(appStatus);
+		}
+	}, [appStatus]);
+
+	const annotate = (updates: Record<string, Partial<Annotation>>) => {
+		onAnnotate?.(updates).catch(err => {
+			setStatus({ text: `Could not save: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+		});
+	};
+
+	// Star all the sessions, or unstar them if they all are
+	const toggleStar = (toStar: Session[]) => {
+		const starred = !toStar.every(session => session.annotation?.starred);
+		annotate(Object.fromEntries(toStar.map(session => [session.id, { starred }])));
+	};
+
+	// With sessions marked, the typed tags are added to theirs; otherwise they
+	// replace the selected session's tags
+	const saveTags = (value: string) => {
+		const tags = parseTags(value);
+		if (marked.length === 0) {
+			if (selectedSession) annotate({ [selectedSession.id]: { tags } });
+			return;
+		}
+		annotate(Object.fromEntries(marked.map(session => [
+			session.id,
+			{ tags: [...new Set([...(session.annotation?.tags ?? []), ...tags])] },
+		])));
+	};
+
+	// Write the conversations to the current directory
+	const runExport = async (toExport: Session[], format: ExportFormat) => {
+		let exported = '';
+		const failed: string[] = [];
+		for (const session of toExport) {
+			try {
+				// Sessions whose ids start alike get numbered file names instead of overwriting each other
+				exported = await writeExportFile(session, await loadSessionMessages(session), { format }, process.cwd());
+			} catch (err) {
+				failed.push(`${session.id.slice(0, 8)}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+			}
+		}
+		if (failed.length > 0) {
+			setStatus({ text: `Export failed for ${failed.length} of ${toExport.length}: ${failed[0]}`, isError: true });
+		} else if (toExport.length === 1) {
+			setStatus({ text: `Exported to ${exported}`, isError: false });
+		} else {
+			setStatus({ text: `Exported ${toExport.length} sessions to ${process.cwd()}`, isError: false });
+		}
+	};
+
+	const copyIds = (toCopy: Session[]) => {
+		copyToClipboard(toCopy.map(session => session.id).join('\n')).then(() => {
+			setStatus({ text: toCopy.length === 1 ? `Copied ${toCopy[0].id}` : `Copied ${toCopy.length} session ids`, isError: false });
+		}).catch(err => {
+			setStatus({ text: `Could not copy: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+		});
+	};
+
+	// Marks the sessions, or unmarks them if they all are marked
+	const toggleMarks = (toToggle: Session[]): Set<string> => {
+		const next = new Set(markedIds);
+		const allMarked = toToggle.every(session => markedIds.has(session.id));
+		for (const session of toToggle) {
+			if (allMarked) {
+				next.delete(session.id);
+			} else {
+				next.add(session.id);
+			}
+		}
+		return next;
+	};
+
+	const toggleProject = (root: string) => {
+		const next = new Set(expandedProjects);
+		if (!next.delete(root)) next.add(root);
+		setExpandedProjects(next);
+	};
+
 	useInput((input, key) => {
-		if (key.return) {
-			if (filteredSessions.length > 0) {
-				onSelectSession(filteredSessions[selectedIndex]);
+		const pressed = (action: SearchAction) => matchesKey(keys[action], input, key);
+		setStatus(null);
+
+		if (exportMenuOpen) {
+			const formats: Record<string, ExportFormat> = { m: 'md', h: 'html', j: 'json' };
+			if (key.escape) {
+				setExportMenuOpen(false);
+			} else if (formats[input]) {
+				setExportMenuOpen(false);
+				runExport(targets, formats[input]);
 			}
-		} else if (key.upArrow || (key.ctrl && input === 'k')) {
+			return;
+		}
+
+		if (pressed('select')) {
+			if (selectedRow?.kind === 'project') {
+				toggleProject(selectedRow.project.root);
+			} else if (selectedSession) {
+				onSelectSession(selectedSession, { query, mode: searchMode, match: matches.get(selectedSession.id) });
+			}
+		} else if (pressed('cycleMode')) {
+			setSearchMode(prev => nextSearchMode(prev));
+		} else if (pressed('toggleContext')) {
+			setShowContext(prev => !prev);
+		} else if (pressed('refresh')) {
+			onRefresh?.();
+		} else if (pressed('star')) {
+			if (targets.length > 0 && onAnnotate) toggleStar(targets);
+		} else if (pressed('editTags')) {
+			if (targets.length > 0 && onAnnotate) setEditing('tags');
+		} else if (pressed('editNote')) {
+			if (selectedSession && onAnnotate) setEditing('note');
+		} else if (pressed('toggleStarredFirst')) {
+			setStarredFirst(prev => !prev);
+		} else if (pressed('delete')) {
+			if (targets.length > 0 && onRemove) setConfirmRemove({ destination: 'trash', sessions: targets });
+		} else if (pressed('archive')) {
+			if (targets.length > 0 && onRemove) setConfirmRemove({ destination: 'archive', sessions: targets });
+		} else if (pressed('toggleSelect')) {
+			// On a project, marks all of its sessions, or unmarks them if they all are marked
+			const toToggle = selectedRow?.kind === 'project' ? selectedRow.project.sessions : selectedSession ? [selectedSession] : [];
+			if (toToggle.length > 0) {
+				setMarkedIds(toggleMarks(toToggle));
+				setSelectedIndex(prev => Math.min(listRows.length - 1, prev + 1));
+			}
+		} else if (pressed('selectAll')) {
+			// Marks every listed session, including those of collapsed projects
+			setMarkedIds(toggleMarks(listRows.flatMap(row => (
+				row.kind === 'session' ? [row.session] : row.expanded ? [] : row.project.sessions
+			))));
+		} else if (pressed('clearSelection')) {
+			setMarkedIds(new Set());
+		} else if (pressed('export')) {
+			if (targets.length > 0) setExportMenuOpen(true);
+		} else if (pressed('copyIds')) {
+			if (targets.length > 0) copyIds(targets);
+		} else if (pressed('cycleCost')) {
+			setCostColumn(prev => prev === 'hidden' ? 'shown' : prev === 'shown' ? 'sorted' : 'hidden');
+		} else if (pressed('stats')) {
+			onShowStats?.({ query, mode: searchMode });
+		} else if (pressed('toggleProjects')) {
+			setGroupByProject(prev => !prev);
+			setSelectedIndex(0);
+			setScrollOffset(0);
+		} else if (pressed('expand')) {
+			if (selectedRow?.kind === 'project') {
+				if (selectedRow.expanded) {
+					// Already open: step into it
+					setSelectedIndex(prev => Math.min(listRows.length - 1, prev + 1));
+				} else {
+					toggleProject(selectedRow.project.root);
+				}
+			}
+		} else if (pressed('collapse')) {
+			// From a session, collapses its project and moves up to the project's row
+			let projectIndex = selectedIndex;
+			while (projectIndex > 0 && listRows[projectIndex].kind === 'session') projectIndex--;
+			const projectRow = listRows[projectIndex];
+			if (projectRow?.kind === 'project' && projectRow.expanded) {
+				toggleProject(projectRow.project.root);
+				setSelectedIndex(projectIndex);
+			}
+		} else if (pressed('toggleForks')) {
+			const row = listRows[selectedIndex];
+			if (row?.kind === 'session' && (row.depth > 0 || row.hiddenForks > 0)) {
+				const rootId = getLineageRoot(row.session, sessionsById).id;
+				const next = new Set(expandedForks);
+				if (next.has(rootId)) {
+					next.delete(rootId);
+					// Collapsing from one of the forks moves the selection up to the family's row
+					let head = selectedIndex;
+					while (head > 0 && isForkRow(listRows[head])) head--;
+					setSelectedIndex(head);
+				} else {
+					next.add(rootId);
+				}
+				setExpandedForks(next);
+			}
+		} else if (pressed('up')) {
 			setSelectedIndex(prev => Math.max(0, prev - 1));
-		} else if (key.downArrow || (key.ctrl && input === 'j')) {
-			setSelectedIndex(prev => Math.min(filteredSessions.length - 1, prev + 1));
-		} else if (key.pageUp || (key.ctrl && input === 'u')) {
+		} else if (pressed('down')) {
+			setSelectedIndex(prev => Math.min(listRows.length - 1, prev + 1));
+		} else if (pressed('halfPageUp')) {
 			setSelectedIndex(prev => Math.max(0, prev - Math.floor(maxVisibleRows / 2)));
-		} else if (key.pageDown || (key.ctrl && input === 'd')) {
-			setSelectedIndex(prev => Math.min(filteredSessions.length - 1, prev + Math.floor(maxVisibleRows / 2)));
-		} else if (key.ctrl && input === 'g') {
+		} else if (pressed('halfPageDown')) {
+			setSelectedIndex(prev => Math.min(listRows.length - 1, prev + Math.floor(maxVisibleRows / 2)));
+		} else if (pressed('top')) {
 			setSelectedIndex(0);
-		} else if (key.shift && input === 'G') {
-			setSelectedIndex(filteredSessions.length - 1);
+		} else if (pressed('bottom')) {
+			setSelectedIndex(listRows.length - 1);
+		} else if (pressed('deleteWord')) {
+			setQuery(prev => prev.replace(/\s*\S+\s*$/, ''));
 		} else if (key.backspace || key.delete) {
 			setQuery(prev => prev.slice(0, -1));
-		} else if (key.ctrl && input === 'w') {
-			// Delete word
-			setQuery(prev => prev.replace(/\s*\S+\s*$/, ''));
 		} else if (input && !key.ctrl && !key.meta && !key.shift) {
 			setQuery(prev => prev + input);
 		} else if (key.shift && input && input.length === 1) {
 			// Handle uppercase letters
 			setQuery(prev => prev + input);
 		}
-	});
+	}, { isActive: editing === null && confirmRemove === null });
 
-	const displaySessions = filteredSessions.slice(scrollOffset, scrollOffset + maxVisibleRows);
+	const displayRows = listRows.slice(scrollOffset, scrollOffset + maxVisibleRows);
 
 	// Helper function to get relative time
 	const getRelativeTime = (date: Date): string => {
@@ -183,9 +548,22 @@ export function SearchView({ sessions, onSelectSession, initialQuery = '' }: Sea
 		return '.../' + parts[parts.length - 1];
 	};
 
+	// Branch the session started on, plus how many others it moved to
+	const formatBranches = (branches: string[], maxLength: number): string => {
+		if (branches.length === 0) return '-';
+		const more = branches.length > 1 ? ` +${branches.length - 1}` : '';
+		const name = branches[0];
+		const nameWidth = maxLength - more.length;
+		return (name.length > nameWidth ? name.slice(0, nameWidth - 1) + '…' : name) + more;
+	};
+
+	const truncate = (text: string, maxLength: number): string => {
+		return text.length > maxLength ? text.slice(0, Math.max(0, maxLength - 1)) + '…' : text;
+	};
+
 	// Get message count for a session
 	const getMessageCount = (session: Session): number => {
-		return session.messages.filter(m => m.type === 'user' || m.type === 'assistant').length;
+		return session.messageCount;
 	};
 
 	// Warn about very narrow terminals
@@ -210,6 +588,9 @@ export function SearchView({ sessions, onSelectSession, initialQuery = '' }: Sea
 			<Box flexDirection="column" padding={1}>
 				<Box marginBottom={1}>
 					<Text bold color="cyan">Claude Session Search</Text>
+					<Text> </Text>
+					<Text color="magenta">[{searchMode}]</Text>
+					<ScanStatus progress={scanProgress} />
 				</Box>
 
 				<Box marginBottom={1}>
@@ -218,13 +599,15 @@ export function SearchView({ sessions, onSelectSession, initialQuery = '' }: Sea
 					<Text color="gray">_</Text>
 				</Box>
 
+				<QueryFilters parsedQuery={parsedQuery} errors={queryErrors} />
+
 				<Box marginTop={1}>
 					<Text color="red">No sessions found{query ? ' matching your search' : ''}.</Text>
 				</Box>
 
 				<Box marginTop={1}>
 					<Text dimColor>
-						Type to search | Ctrl+C: Exit
+						Type to search | Tab: Mode | Ctrl+C: Exit
 					</Text>
 				</Box>
 			</Box>
@@ -236,7 +619,16 @@ export function SearchView({ sessions, onSelectSession, initialQuery = '' }: Sea
 			<Box marginBottom={1}>
 				<Text bold color="cyan">Claude Session Search</Text>
 				<Text> </Text>
+				<Text color="magenta">[{searchMode}]</Text>
+				<Text> </Text>
 				<Text dimColor>({filteredSessions.length} session{filteredSessions.length !== 1 ? 's' : ''})</Text>
+				{groupByProject && <Text dimColor> by project</Text>}
+				{marked.length > 0 && (
+					<Text color="green">
+						{' '}• {marked.length} selected{unlistedMarks > 0 ? ` (${unlistedMarks} not listed)` : ''}
+					</Text>
+				)}
+				<ScanStatus progress={scanProgress} />
 			</Box>
 
 			<Box marginBottom={1}>
@@ -245,70 +637,227 @@ export function SearchView({ sessions, onSelectSession, initialQuery = '' }: Sea
 				<Text color="gray">{query ? '_' : ''}</Text>
 			</Box>
 
+			<QueryFilters parsedQuery={parsedQuery} errors={queryErrors} />
+
 			{/* Header row */}
 			<Box marginBottom={0}>
 				<Text dimColor bold>
-					{'  MESSAGE'.padEnd(messageWidth + 2)} {'MSGS'.padEnd(msgCountWidth)} {'DIRECTORY'.padEnd(dirWidth)} {'TIME'}
+					{'  MESSAGE'.padEnd(messageWidth + 2)} {'MSGS'.padEnd(msgCountWidth)} {costs ? `${'COST'.padEnd(costWidth)} ` : ''}{'DIRECTORY'.padEnd(dirWidth)} {'BRANCH'.padEnd(branchWidth)} {'TIME'}
 				</Text>
 			</Box>
 
 			<Box flexDirection="column" minHeight={maxVisibleRows}>
-				{displaySessions.map((session, displayIndex) => {
+				{displayRows.map((row, displayIndex) => {
 					const actualIndex = scrollOffset + displayIndex;
 					const isSelected = actualIndex === selectedIndex;
-					const firstMessagePreview = session.firstMessage.slice(0, messageWidth - 5).replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
+					if (row.kind === 'project') {
+						const { project } = row;
+						const count = `${project.sessions.length} session${project.sessions.length !== 1 ? 's' : ''}`;
+						const mark = project.sessions.every(session => markedIds.has(session.id)) ? '✓ ' : '';
+						return (
+							<Box key={`project:${project.root}`} flexWrap="nowrap">
+								<Text backgroundColor={isSelected ? 'blue' : undefined} color={isSelected ? 'white' : undefined} wrap="truncate-end">
+									{isSelected ? '> ' : '  '}<Text color={isSelected ? 'white' : 'cyan'}>{row.expanded ? '▾ ' : '▸ '}</Text><Text bold color={isSelected ? 'greenBright' : 'green'}>{mark}</Text>
+									<Text bold>{shortenPath(project.root, messageWidth)}</Text>
+									<Text dimColor={!isSelected}>  {count} • last active {getRelativeTime(project.lastActive)}</Text>
+								</Text>
+							</Box>
+						);
+					}
+					const { session } = row;
+					// Families show their fork count; their other members hang below them.
+					// Grouped, sessions are indented under their project.
+					const treePrefix = (groupByProject ? '  ' : '') + (row.depth > 0
+						? `${'  '.repeat(row.depth - 1)}└ `
+						: row.hiddenForks > 0 ? `${row.expanded ? '▾' : '▸'}${row.hiddenForks} ` : '');
+					// Stars and tags come before the text, taking at most a third of its width
+					const mark = markedIds.has(session.id) ? '✓ ' : '';
+					const star = session.annotation?.starred ? '★ ' : '';
+					const tags = session.annotation?.tags ? formatTags(session.annotation.tags) : '';
+					const tagsCol = tags ? truncate(tags, Math.floor(messageWidth / 3) - star.length) + ' ' : '';
+					const textWidth = messageWidth - treePrefix.length - mark.length - star.length - tagsCol.length;
+					const firstMessagePreview = session.firstMessage.slice(0, textWidth - 5).replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
 					const shortDir = shortenPath(session.directory, dirWidth - 2);
 					const relTime = getRelativeTime(session.timestamp);
 					const msgCount = getMessageCount(session);
 
-					const messageCol = (firstMessagePreview + (firstMessagePreview.length < session.firstMessage.length ? '...' : '')).padEnd(messageWidth);
-					const msgCountCol = msgCount.toString().padEnd(msgCountWidth);
+					const messageCol = (firstMessagePreview + (firstMessagePreview.length < session.firstMessage.length ? '...' : '')).padEnd(textWidth);
+					// Show why the session matched instead of its first message
+					const match = matches.get(session.id);
+					const matchLabel = match ? `[${match.subagent ? 'subagent' : match.tool ?? match.role} #${match.messageIndex + 1}] ` : '';
+					const snippet = match ? padSegments(buildSnippet(match, textWidth - matchLabel.length), textWidth - matchLabel.length) : [];
+					const subagentCount = session.subagents.length > 0 ? ` ↳${session.subagents.length}` : '';
+					const msgCountCol = (msgCount.toString() + subagentCount).padEnd(msgCountWidth);
+					const cost = costs?.get(session.id);
+					const costCol = cost ? (cost.cost > 0 || cost.unpriced.length > 0 ? formatCost(cost) : '-').padEnd(costWidth) : '';
 					const dirCol = shortDir.padEnd(dirWidth);
+					const branchCol = formatBranches(session.branches, branchWidth - 1).padEnd(branchWidth);
 					const timeCol = relTime.padEnd(timeWidth);
 
 					return (
 						<Box key={session.id} flexWrap="nowrap">
 							<Text backgroundColor={isSelected ? 'blue' : undefined} color={isSelected ? 'white' : undefined} wrap="truncate-end">
-								{isSelected ? '> ' : '  '}{messageCol} <Text dimColor={!isSelected}>{msgCountCol}</Text> <Text dimColor={!isSelected}>{dirCol}</Text> <Text color={isSelected ? 'white' : 'yellow'}>{timeCol}</Text>
+								{isSelected ? '> ' : '  '}<Text color={isSelected ? 'white' : 'cyan'}>{treePrefix}</Text><Text bold color={isSelected ? 'greenBright' : 'green'}>{mark}</Text><Text color={isSelected ? 'yellowBright' : 'yellow'}>{star}</Text><Text color={isSelected ? 'white' : 'green'}>{tagsCol}</Text>{match ? (
+									<>
+										<Text dimColor={!isSelected}>{matchLabel}</Text>
+										<HighlightedText segments={snippet} highlightColor={isSelected ? 'yellowBright' : 'yellow'} />
+									</>
+								) : messageCol} <Text dimColor={!isSelected}>{msgCountCol}</Text> {costCol && <><Text color={isSelected ? 'white' : 'green'}>{costCol}</Text> </>}<Text dimColor={!isSelected}>{dirCol}</Text> <Text color={isSelected ? 'white' : 'magenta'}>{branchCol}</Text> <Text color={isSelected ? 'white' : 'yellow'}>{timeCol}</Text>
 							</Text>
 						</Box>
 					);
 				})}
 				{/* Fill empty space to clear old content */}
-				{displaySessions.length < maxVisibleRows && Array.from({ length: maxVisibleRows - displaySessions.length }).map((_, i) => (
+				{displayRows.length < maxVisibleRows && Array.from({ length: maxVisibleRows - displayRows.length }).map((_, i) => (
 					<Box key={`empty-${i}`}>
 						<Text> </Text>
 					</Box>
 				))}
 			</Box>
 
-			{displaySessions.length > 0 && filteredSessions[selectedIndex] && (
+			{displayRows.length > 0 && selectedRow?.kind === 'project' && (
+				<Box marginTop={1}>
+					<Text>
+						<Text dimColor>Project:</Text>
+						<Text color="green"> {selectedRow.project.root}</Text>
+						<Newline />
+						<Text dimColor>Last active:</Text>
+						<Text> {selectedRow.project.lastActive.toLocaleString()}</Text>
+						<Text dimColor> • </Text>
+						<Text>{selectedRow.project.sessions.length} session{selectedRow.project.sessions.length !== 1 ? 's' : ''}</Text>
+						<Text dimColor> • </Text>
+						<Text>{selectedRow.project.sessions.reduce((count, session) => count + getMessageCount(session), 0)} messages</Text>
+					</Text>
+				</Box>
+			)}
+
+			{displayRows.length > 0 && selectedSession && (
 				<Box marginTop={1}>
 					<Text>
 						<Text dimColor>Full path:</Text>
-						<Text color="green"> {filteredSessions[selectedIndex].directory}</Text>
+						<Text color="green"> {selectedSession.directory}</Text>
+						{selectedSession.forkOf && (
+							<Text dimColor>
+								{' '}• {selectedSession.forkOf.relation === 'resume' ? 'resumes' : 'fork of'} {selectedSession.forkOf.parentId.slice(0, 8)} after message #{selectedSession.forkOf.sharedMessages}
+							</Text>
+						)}
+						{selectedSession.forks.length > 0 && (
+							<Text dimColor> • {selectedSession.forks.length} fork{selectedSession.forks.length !== 1 ? 's' : ''}</Text>
+						)}
 						<Newline />
 						<Text dimColor>Date:</Text>
-						<Text> {filteredSessions[selectedIndex].timestamp.toLocaleString()}</Text>
+						<Text> {selectedSession.timestamp.toLocaleString()}</Text>
 						<Text dimColor> • </Text>
-						<Text>{getMessageCount(filteredSessions[selectedIndex])} messages</Text>
+						<Text>{getMessageCount(selectedSession)} messages</Text>
+						{selectedSession.subagents.length > 0 && (
+							<Text> ({selectedSession.subagents.length} subagent{selectedSession.subagents.length !== 1 ? 's' : ''})</Text>
+						)}
+						{selectedSession.branches.length > 0 && (
+							<>
+								<Text dimColor> • Branch: </Text>
+								<Text color="magenta">{selectedSession.branches.join(', ')}</Text>
+							</>
+						)}
+						{noteRows > 0 && (
+							<>
+								<Newline />
+								{selectedSession.annotation?.note && (
+									<>
+										<Text dimColor>Note: </Text>
+										<Text>{truncate(selectedSession.annotation.note.replace(/\s+/g, ' '), terminalWidth - 10)}</Text>
+									</>
+								)}
+							</>
+						)}
 					</Text>
 				</Box>
 			)}
 
+			{/* Context around the match for the selected session */}
+			{showContext && (() => {
+				const match = selectedSession && matches.get(selectedSession.id);
+				const contextWidth = Math.max(20, terminalWidth - 6);
+				return (
+					<Box flexDirection="column" height={contextRows} flexShrink={0}>
+						{match ? (
+							<>
+								<Text dimColor>Match in {match.subagent ? 'subagent started near' : match.tool ? `${match.tool} tool ${match.role === 'assistant' ? 'call' : 'result'} near` : match.role} message #{match.messageIndex + 1}:</Text>
+								{buildContextLines(match, contextLineCount, contextWidth).map((line, i) => (
+									<Text key={i} wrap="truncate-end">  <HighlightedText segments={line} /></Text>
+								))}
+							</>
+						) : (
+							<Text dimColor>No text match for this session.</Text>
+						)}
+					</Box>
+				);
+			})()}
+
 			{/* Scroll indicator */}
-			{filteredSessions.length > maxVisibleRows && (
+			{listRows.length > maxVisibleRows && (
 				<Box marginTop={1} marginBottom={1}>
 					<Text dimColor>
-						Showing {scrollOffset + 1}-{Math.min(scrollOffset + maxVisibleRows, filteredSessions.length)} of {filteredSessions.length}
+						Showing {scrollOffset + 1}-{Math.min(scrollOffset + maxVisibleRows, listRows.length)} of {listRows.length}
 					</Text>
 				</Box>
 			)}
 
 			<Box marginTop={1}>
-				<Text dimColor>
-					↑/↓: Navigate | Ctrl+U/D: Half-page | g/G: Top/Bottom | Enter: Details | Ctrl+W: Delete word | Ctrl+C: Exit
-				</Text>
+				{editing === 'tags' && marked.length > 0 ? (
+					<AnnotationPrompt
+						label={`Add tags to ${marked.length} session${marked.length !== 1 ? 's' : ''}`}
+						initialValue=""
+						hint="Separate with spaces"
+						onSubmit={value => {
+							setEditing(null);
+							saveTags(value);
+						}}
+						onCancel={() => setEditing(null)}
+					/>
+				) : editing && selectedSession ? (
+					<AnnotationPrompt
+						label={editing === 'tags' ? 'Tags' : 'Note'}
+						initialValue={editing === 'tags' ? formatTags(selectedSession.annotation?.tags) : selectedSession.annotation?.note ?? ''}
+						hint={editing === 'tags' ? 'Separate with spaces' : undefined}
+						onSubmit={value => {
+							setEditing(null);
+							if (editing === 'tags') {
+								saveTags(value);
+							} else {
+								annotate({ [selectedSession.id]: { note: value.trim() } });
+							}
+						}}
+						onCancel={() => setEditing(null)}
+					/>
+				) : confirmRemove ? (
+					<ConfirmPrompt
+						message={confirmRemove.sessions.length === 1
+							? `Move session ${confirmRemove.sessions[0].id.slice(0, 8)} to the ${confirmRemove.destination}?`
+							: `Move ${confirmRemove.sessions.length} sessions to the ${confirmRemove.destination}?`}
+						onConfirm={() => {
+							const { sessions: toRemove, destination } = confirmRemove;
+							setConfirmRemove(null);
+							// Moved sessions leave the list, so their marks go too
+							setMarkedIds(prev => new Set([...prev].filter(id => !toRemove.some(session => session.id === id))));
+							onRemove?.(toRemove, destination).catch(err => {
+								setStatus({ text: `Could not move: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+							});
+						}}
+						onCancel={() => setConfirmRemove(null)}
+					/>
+				) : exportMenuOpen ? (
+					<Text>
+						<Text color="cyan">Export {targets.length === 1 ? 'session' : `${targets.length} sessions`} as: </Text>
+						<Text>m: Markdown | h: HTML | j: JSON</Text>
+						<Text dimColor> | Esc: Cancel</Text>
+					</Text>
+				) : status ? (
+					<Text color={status.isError ? 'red' : 'green'}>{status.text}</Text>
+				) : (
+					<Text dimColor>
+						{helpText}
+					</Text>
+				)}
 			</Box>
 		</Box>
 	);
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import { Session } from '../utils/sessionScanner.js';
+import { computeStats, histogram, bar, getBusiestHours } from '../utils/stats.js';
+
+interface StatsViewProps {
+	sessions: Session[];
+	onBack: () => void;
+}
+
+const CHART_HEIGHT = 5;
+
+// Usage statistics over all sessions: activity over time, busiest hours,
+// models and projects
+export function StatsView({ sessions, onBack }: StatsViewProps) {
+	const [byWeek, setByWeek] = useState(false);
+	const { stdout } = useStdout();
+	const stats = useMemo(() => computeStats(sessions), [sessions]);
+
+	const terminalHeight = stdout?.rows || 24;
+	const terminalWidth = stdout?.columns || 120;
+
+	useInput((input, key) => {
+		if (key.escape || input === 'q') {
+			onBack();
+		} else if (key.tab) {
+			setByWeek(prev => !prev);
+		}
+	});
+
+	const periods = byWeek ? stats.weeks : stats.days;
+	const columnWidth = byWeek ? 4 : 2;
+	const activityChart = histogram(periods.map(period => period.messages), CHART_HEIGHT, columnWidth);
+	const activityWidth = periods.length * columnWidth;
+	const firstLabel = periods[0].start;
+	const lastLabel = byWeek ? `week of ${periods[periods.length - 1].start}` : 'today';
+	const hourChart = histogram(stats.hours, CHART_HEIGHT, 2);
+	const busiest = getBusiestHours(stats.hours, 3);
+	const modelRows = stats.models.slice(0, 5);
+
+	// Overhead: padding (2) + header (2) + summary (2) + charts (title, rows, axis, margin) + models + projects title + footer (2)
+	const fixedRows = 6 + (CHART_HEIGHT + 3) + (modelRows.length > 0 ? modelRows.length + 2 : 0) + 1 + 2;
+	const projectRows = Math.max(1, terminalHeight - fixedRows - 1);
+	const projects = stats.projects.slice(0, projectRows);
+	const maxProjectSessions = stats.projects[0]?.sessions ?? 0;
+	const barWidth = 20;
+
+	return (
+		<Box flexDirection="column" padding={1} height={terminalHeight}>
+			<Box marginBottom={1}>
+				<Text bold color="cyan">Usage Statistics</Text>
+			</Box>
+
+			<Box marginBottom={1}>
+				<Text wrap="truncate">
+					<Text bold>{stats.sessions}</Text><Text dimColor> sessions • </Text>
+					<Text bold>{stats.messages}</Text><Text dimColor> messages • </Text>
+					<Text bold>{stats.averageMessages.toFixed(1)}</Text><Text dimColor> messages per session on average</Text>
+					{stats.firstActivity && stats.lastActivity && (
+						<Text dimColor> • active {new Date(stats.firstActivity).toLocaleDateString()} – {new Date(stats.lastActivity).toLocaleDateString()}</Text>
+					)}
+				</Text>
+			</Box>
+
+			<Box marginBottom={1} flexWrap="nowrap">
+				<Box flexDirection="column" marginRight={4} flexShrink={0}>
+					<Text bold>Messages per {byWeek ? 'week' : 'day'}<Text dimColor> (last {periods.length} {byWeek ? 'weeks' : 'days'})</Text></Text>
+					{activityChart.map((row, i) => (
+						<Text key={i} color="green">{row}</Text>
+					))}
+					<Text dimColor>{firstLabel.padEnd(Math.max(firstLabel.length + 1, activityWidth - lastLabel.length))}{lastLabel}</Text>
+				</Box>
+				{terminalWidth >= activityWidth + 60 && (
+					<Box flexDirection="column" flexShrink={0}>
+						<Text bold>Messages by hour<Text dimColor>{busiest.length > 0 ? ` (busiest ${busiest.map(hour => `${hour}:00`).join(', ')})` : ''}</Text></Text>
+						{hourChart.map((row, i) => (
+							<Text key={i} color="yellow">{row}</Text>
+						))}
+						<Text dimColor>{'0'.padEnd(12)}{'6'.padEnd(12)}{'12'.padEnd(12)}{'18'.padEnd(10)}23</Text>
+					</Box>
+				)}
+			</Box>
+
+			{modelRows.length > 0 && (
+				<Box flexDirection="column" marginBottom={1}>
+					<Text bold>Models<Text dimColor> (sessions)</Text></Text>
+					{modelRows.map(model => (
+						<Text key={model.model} wrap="truncate">
+							<Text>{String(model.sessions).padStart(6)}  </Text>
+							<Text color="magenta">{model.model}</Text>
+						</Text>
+					))}
+				</Box>
+			)}
+
+			<Box flexDirection="column" flexGrow={1}>
+				<Text bold>Projects<Text dimColor> (sessions, messages)</Text></Text>
+				{projects.map(project => (
+					<Text key={project.directory} wrap="truncate">
+						<Text>{String(project.sessions).padStart(6)}</Text>
+						<Text dimColor>{String(project.messages).padStart(8)}  </Text>
+						<Text color="cyan">{bar(project.sessions, maxProjectSessions, barWidth).padEnd(barWidth)}</Text>
+						<Text>  {project.directory}</Text>
+					</Text>
+				))}
+				{stats.projects.length > projects.length && (
+					<Text dimColor>       … and {stats.projects.length - projects.length} more</Text>
+				)}
+			</Box>
+
+			<Box marginTop={1}>
+				<Text dimColor>Tab: {byWeek ? 'Per day' : 'Per week'} | Esc/q: Back | Ctrl+C: Exit</Text>
+			</Box>
+		</Box>
+	);
+}
@@ -1,83 +1,261 @@
 #!/usr/bin/env node
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { render, Box, Text } from 'ink';
 import Spinner from 'ink-spinner';
-import { scanSessions, Session } from './utils/sessionScanner.js';
+import { scanSessions, getDefaultProjectsRoot, Session, SessionMessage, ScanOptions, ScanProgress } from './utils/sessionScanner.js';
+import { loadSessionMessages } from './utils/messageLoader.js';
 import { SearchView } from './components/SearchView.js';
 import { DetailView } from './components/DetailView.js';
-import { spawn } from 'child_process';
+import { StatsView } from './components/StatsView.js';
+import { loadConfig, getDefaultConfig, getScanOptions, Config, LaunchProfile } from './utils/config.js';
+import { launchSession } from './utils/launcher.js';
+import { forkSessionAt } from './utils/forking.js';
+import { moveSession, getRemovedDir, RemoveDestination } from './utils/trash.js';
+import { watchTranscripts } from './utils/watcher.js';
+import { getLineage } from './utils/lineage.js';
+import { loadAnnotations, updateAnnotations, applyAnnotations, Annotation, Annotations } from './utils/annotations.js';
+import { ActiveSearch, StatusMessage } from './utils/types.js';
+import { isCliCommand, runCli } from './cli.js';
 
-type View = 'search' | 'detail';
+type View = 'search' | 'detail' | 'stats';
 
-function App() {
+interface AppProps {
+	rebuildIndex: boolean;
+}
+
+function App({ rebuildIndex }: AppProps) {
 	const [sessions, setSessions] = useState<Session[]>([]);
 	const [loading, setLoading] = useState(true);
+	const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
 	const [error, setError] = useState<string | null>(null);
 	const [currentView, setCurrentView] = useState<View>('search');
 	const [selectedSession, setSelectedSession] = useState<Session | null>(null);
-	const [searchQuery, setSearchQuery] = useState('');
+	const [selectedMessages, setSelectedMessages] = useState<SessionMessage[]>([]);
+	const [activeSearch, setActiveSearch] = useState<ActiveSearch>({ query: '', mode: 'fuzzy' });
+	const [config, setConfig] = useState<Config>(getDefaultConfig);
+	const [launchStatus, setLaunchStatus] = useState<StatusMessage | null>(null);
+	const [annotations, setAnnotations] = useState<Annotations>({});
+	const [searchStatus, setSearchStatus] = useState<StatusMessage | null>(null);
+	// Stars, tags and notes are kept apart from the scanned sessions, so rescans don't lose them
+	const annotatedSessions = useMemo(() => applyAnnotations(sessions, annotations), [sessions, annotations]);
+	const sessionsById = useMemo(() => new Map(annotatedSessions.map(session => [session.id, session])), [annotatedSessions]);
+	// Set once the config is loaded. One scan runs at a time; a rescan asked for
+	// during a scan runs after it.
+	const scanOptions = useRef<ScanOptions | null>(null);
+	const scanning = useRef(false);
+	const rescanQueued = useRef(false);
+
+	// Scan for sessions, re-parsing only transcripts that changed since they were
+	// indexed. With showProgress the list fills in as sessions are found;
+	// otherwise it is replaced once the scan is done.
+	const scan = async (showProgress: boolean) => {
+		if (!scanOptions.current) return;
+		if (scanning.current) {
+			rescanQueued.current = true;
+			return;
+		}
+		scanning.current = true;
+		try {
+			do {
+				rescanQueued.current = false;
+				const foundSessions = await scanSessions(process.cwd(), {
+					...scanOptions.current,
+					onProgress: progress => {
+						if (showProgress || progress.done) setScanProgress(progress);
+						if (showProgress) setSessions(progress.sessions);
+					},
+				});
+				setSessions(foundSessions);
+			} while (rescanQueued.current);
+		} finally {
+			scanning.current = false;
+		}
+	};
 
 	useEffect(() => {
+		let stopWatching = () => {};
 		const loadSessions = async () => {
 			try {
-				const cwd = process.cwd();
-				const foundSessions = await scanSessions(cwd);
-				setSessions(foundSessions);
+				// An invalid config stops here with its error rather than falling back to defaults
+				const loadedConfig = await loadConfig();
+				setConfig(loadedConfig);
+				setAnnotations(await loadAnnotations());
+				scanOptions.current = getScanOptions(loadedConfig, rebuildIndex);
+				// Sessions are listed as they are found and re-ranked with each batch
+				await scan(true);
 				setLoading(false);
 			} catch (err) {
 				setError(err instanceof Error ? err.message : 'Unknown error');
 				setLoading(false);
+				return;
 			}
+
+			// Later scans use the index the first one brought up to date
+			scanOptions.current = { ...scanOptions.current, rebuildIndex: false };
+			stopWatching = watchTranscripts(scanOptions.current.projectsRoot ?? getDefaultProjectsRoot(), () => {
+				scan(false).catch(() => {
+					// The sessions found before stay listed
+				});
+			});
 		};
 
 		loadSessions();
+		return () => stopWatching();
 	}, []);
 
-	const handleSelectSession = (session: Session) => {
-		setSelectedSession(session);
-		setCurrentView('detail');
+	const handleRefresh = () => {
+		scan(true).catch(() => {
+			// The sessions found before stay listed
+		});
 	};
 
-	const handleBack = () => {
-		setCurrentView('search');
+	// Show new messages of the open session as it is written to
+	useEffect(() => {
+		if (currentView !== 'detail' || !selectedSession) return;
+		const updated = sessionsById.get(selectedSession.id);
+		if (updated && updated.annotation !== selectedSession.annotation) {
+			setSelectedSession(prev => (prev ? { ...prev, annotation: updated.annotation } : prev));
+		}
+		if (!updated || (
+			updated.lastTimestamp.getTime() === selectedSession.lastTimestamp.getTime()
+			&& updated.messageCount === selectedSession.messageCount
+			&& updated.subagents.length === selectedSession.subagents.length
+		)) {
+			return;
+		}
+		let cancelled = false;
+		loadSessionMessages(updated).then(messages => {
+			if (cancelled) return;
+			setSelectedSession(updated);
+			setSelectedMessages(messages);
+		}).catch(() => {
+			// Keep showing what was read before
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [sessionsById]);
+
+	const handleSelectSession = async (session: Session, search: ActiveSearch) => {
+		setActiveSearch(search);
+		setSearchStatus(null);
+		try {
+			// The index only holds extracted text, so read the full transcript on demand
+			const messages = await loadSessionMessages(session);
+			setSelectedSession(session);
+			setSelectedMessages(messages);
+			setCurrentView('detail');
+		} catch (err) {
+			// e.g. deleted since the last scan: stay in the search and say so
+			setSearchStatus({ text: `Could not open session: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+		}
 	};
 
-	const handleLaunch = (session: Session) => {
-		// Launch claude in the session's working directory
-		// Using --fork-session to preserve the original session
-		const claudeProcess = spawn(
-			'claude',
-			['--dangerously-skip-permissions', '--resume', session.id, '--fork-session'],
-			{
-				cwd: session.cwd,
-				stdio: 'inherit',
-			}
-		);
+	const handleShowStats = (search: ActiveSearch) => {
+		setActiveSearch(search);
+		setSearchStatus(null);
+		setCurrentView('stats');
+	};
 
-		claudeProcess.on('exit', (code) => {
-			if (code !== 0) {
-				console.error(`Claude exited with code ${code}`);
+	// Save sessions' stars, tags or notes, keyed by session id. Failures are for
+	// the views to show.
+	const handleAnnotate = async (updates: Record<string, Partial<Annotation>>) => {
+		setAnnotations(await updateAnnotations(updates));
+	};
+
+	// Move sessions' files to the trash or archive and drop them from the list
+	// right away; the rescan after links what is left. Failures are for the
+	// views to show, after the other sessions have been moved.
+	const handleRemove = async (toRemove: Session[], destination: RemoveDestination) => {
+		const moved = new Set<string>();
+		let movedTo = '';
+		const errors: string[] = [];
+		for (const session of toRemove) {
+			try {
+				movedTo = await moveSession(session, destination);
+				moved.add(session.id);
+			} catch (err) {
+				errors.push(err instanceof Error ? err.message : 'Unknown error');
 			}
-			process.exit(code || 0);
+		}
+		if (moved.size > 0) {
+			setSessions(prev => prev.filter(s => !moved.has(s.id)));
+			setSearchStatus({
+				text: moved.size === 1
+					? `Moved session ${[...moved][0].slice(0, 8)} to ${movedTo}`
+					: `Moved ${moved.size} sessions to ${getRemovedDir(destination)}`,
+				isError: false,
+			});
+			if (currentView === 'detail') {
+				handleBack();
+			}
+			scan(false).catch(() => {
+				// The sessions found before stay listed
+			});
+		}
+		if (errors.length > 0) {
+			throw new Error(toRemove.length > 1 ? `${errors.length} of ${toRemove.length} sessions: ${errors[0]}` : errors[0]);
+		}
+	};
+
+	const handleBack = () => {
+		setLaunchStatus(null);
+		setCurrentView('search');
+	};
+
+	const handleLaunch = (session: Session, profile: LaunchProfile) => {
+		// Failures to start are shown in the detail view instead of exiting
+		launchSession(session, profile, {
+			onError: message => setLaunchStatus({ text: message, isError: true }),
+			onExit: code => {
+				if (profile.interactive) {
+					// The launched program had the terminal, so we're done when it exits
+					if (code !== 0) {
+						console.error(`${profile.command} exited with code ${code}`);
+					}
+					process.exit(code);
+				} else if (code !== 0) {
+					setLaunchStatus({ text: `Launch profile "${profile.name}" exited with code ${code}`, isError: true });
+				} else {
+					setLaunchStatus({ text: `Launched with profile "${profile.name}"`, isError: false });
+				}
+			},
 		});
 	};
 
-	if (loading) {
+	// Write a copy of the session that ends at the message and launch that. The
+	// original transcript is left as it is.
+	const handleResumeFrom = async (session: Session, message: SessionMessage, profile: LaunchProfile) => {
+		if (!message.uuid) return;
+		try {
+			const fork = await forkSessionAt(session, message.uuid);
+			setLaunchStatus({ text: `Created session ${fork.sessionId} (${fork.messageCount} messages)`, isError: false });
+			handleLaunch({ ...session, id: fork.sessionId, filePath: fork.filePath }, profile);
+		} catch (err) {
+			setLaunchStatus({ text: `Could not resume from here: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+		}
+	};
+
+	if (error) {
 		return (
 			<Box padding={1}>
-				<Text color="cyan">
-					<Spinner type="dots" />
-				</Text>
-				<Text> Scanning Claude sessions...</Text>
+				<Text color="red">Error: {error}</Text>
 			</Box>
 		);
 	}
 
-	if (error) {
+	// The search view takes over as soon as the first sessions are found
+	if (loading && sessions.length === 0) {
 		return (
 			<Box padding={1}>
-				<Text color="red">Error: {error}</Text>
+				<Text color="cyan">
+					<Spinner type="dots" />
+				</Text>
+				<Text> Scanning Claude sessions...</Text>
+				{scanProgress && scanProgress.filesTotal > 0 && (
+					<Text dimColor> {scanProgress.filesScanned}/{scanProgress.filesTotal} files</Text>
+				)}
 			</Box>
 		);
 	}
@@ -93,9 +271,19 @@ function App() {
 	if (currentView === 'search') {
 		return (
 			<SearchView
-				sessions={sessions}
+				sessions={annotatedSessions}
+				scanProgress={scanProgress}
 				onSelectSession={handleSelectSession}
-				initialQuery={searchQuery}
+				onRefresh={handleRefresh}
+				onAnnotate={handleAnnotate}
+				onRemove={handleRemove}
+				onShowStats={handleShowStats}
+				status={searchStatus}
+				initialQuery={activeSearch.query}
+				initialMode={activeSearch.mode}
+				ranking={config.ranking}
+				keys={config.keys.search}
+				prices={config.prices}
 			/>
 		);
 	}
@@ -104,13 +292,35 @@ function App() {
 		return (
 			<DetailView
 				session={selectedSession}
+				messages={selectedMessages}
+				lineage={getLineage(selectedSession, sessionsById)}
+				search={activeSearch}
+				keys={config.keys.detail}
+				prices={config.prices}
+				profiles={config.launchProfiles}
+				defaultProfile={config.defaultProfile}
+				launchStatus={launchStatus}
 				onBack={handleBack}
 				onLaunch={handleLaunch}
+				onResumeFrom={handleResumeFrom}
+				onAnnotate={handleAnnotate}
+				onRemove={handleRemove}
+				onRefresh={handleRefresh}
 			/>
 		);
 	}
 
+	if (currentView === 'stats') {
+		return <StatsView sessions={annotatedSessions} onBack={handleBack} />;
+	}
+
 	return null;
 }
 
-render(<App />);
+const args = process.argv.slice(2);
+
+if (isCliCommand(args[0])) {
+	runCli(args).then(code => process.exit(code));
+} else {
+	render(<App rebuildIndex={args.includes('--rebuild-index')} />);
+}
@@ -0,0 +1,107 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { homedir } from 'os';
+import type { Session } from './sessionScanner.js';
+
+// Stars, tags and notes added to sessions. They are kept in a file of their
+// own, keyed by session id, so transcripts are never written to and the
+// annotations outlive rescans and index rebuilds.
+
+export interface Annotation {
+	starred?: boolean;
+	tags?: string[]; // Lowercase, without duplicates
+	note?: string;
+}
+
+export type Annotations = Record<string, Annotation>;
+
+interface AnnotationsFile {
+	version: number;
+	sessions: Annotations;
+}
+
+const ANNOTATIONS_VERSION = 1;
+
+// User data rather than cache, so it lives under XDG_DATA_HOME
+export function getDataDir(): string {
+	const base = process.env.XDG_DATA_HOME || path.join(homedir(), '.local', 'share');
+	return path.join(base, 'claude-session-search');
+}
+
+export function getAnnotationsPath(): string {
+	return path.join(getDataDir(), 'annotations.json');
+}
+
+export async function loadAnnotations(): Promise<Annotations> {
+	let content: string;
+	try {
+		content = await fs.readFile(getAnnotationsPath(), 'utf-8');
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+		throw err;
+	}
+	// Unlike the index this can't be rebuilt, so a damaged file is an error
+	// rather than something to start over from
+	let parsed: AnnotationsFile;
+	try {
+		parsed = JSON.parse(content);
+	} catch (err) {
+		throw new Error(`${getAnnotationsPath()}: ${err instanceof Error ? err.message : 'invalid JSON'}`);
+	}
+	if (typeof parsed?.sessions !== 'object' || parsed.sessions === null) {
+		throw new Error(`${getAnnotationsPath()}: expected an object with "sessions"`);
+	}
+	return parsed.sessions;
+}
+
+async function saveAnnotations(annotations: Annotations): Promise<void> {
+	const filePath = getAnnotationsPath();
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	const data: AnnotationsFile = { version: ANNOTATIONS_VERSION, sessions: annotations };
+	// Write to a temp file first so a crash never leaves a truncated file behind
+	const tmpPath = `${filePath}.${process.pid}.tmp`;
+	await fs.writeFile(tmpPath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+	await fs.rename(tmpPath, filePath);
+}
+
+// Change sessions' annotations, keyed by session id, and save. The file is
+// read again first, so changes made meanwhile by another instance are kept.
+// Empty annotations are removed. Returns all annotations as saved.
+export async function updateAnnotations(updates: Record<string, Partial<Annotation>>): Promise<Annotations> {
+	const saved = { ...await loadAnnotations() };
+	for (const [sessionId, update] of Object.entries(updates)) {
+		const next: Annotation = { ...saved[sessionId], ...update };
+		if (!next.starred) delete next.starred;
+		if (!next.tags?.length) delete next.tags;
+		if (!next.note?.trim()) delete next.note;
+
+		if (Object.keys(next).length > 0) {
+			saved[sessionId] = next;
+		} else {
+			delete saved[sessionId];
+		}
+	}
+	await saveAnnotations(saved);
+	return saved;
+}
+
+// Tags as typed: separated by spaces or commas, with or without a leading #
+export function parseTags(input: string): string[] {
+	const tags = input
+		.split(/[\s,]+/)
+		.map(tag => tag.replace(/^#+/, '').toLowerCase())
+		.filter(Boolean);
+	return [...new Set(tags)];
+}
+
+export function formatTags(tags: string[] = []): string {
+	return tags.map(tag => `#${tag}`).join(' ');
+}
+
+// Sessions with their annotations set, for searching and listing
+export function applyAnnotations(sessions: Session[], annotations: Annotations): Session[] {
+	return sessions.map(session => {
+		const annotation = annotations[session.id];
+		return annotation || session.annotation ? { ...session, annotation } : session;
+	});
+}
@@ -0,0 +1,35 @@
+import { spawn } from 'child_process';
+
+// Clipboard programs to try, in order, for the platform
+function getClipboardCommands(): Array<[string, string[]]> {
+	if (process.platform === 'darwin') return [['pbcopy', []]];
+	if (process.platform === 'win32') return [['clip', []]];
+	const commands: Array<[string, string[]]> = [
+		['xclip', ['-selection', 'clipboard']],
+		['xsel', ['--clipboard', '--input']],
+	];
+	if (process.env.WAYLAND_DISPLAY) commands.unshift(['wl-copy', []]);
+	return commands;
+}
+
+function pipeTo(command: string, args: string[], text: string): Promise<boolean> {
+	return new Promise(resolve => {
+		const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'ignore'] });
+		child.on('error', () => resolve(false));
+		child.on('close', code => resolve(code === 0));
+		child.stdin.on('error', () => {
+			// Reported through close or error
+		});
+		child.stdin.end(text);
+	});
+}
+
+// Copy text with the first clipboard program that works. Without one (e.g. over
+// SSH) the terminal is asked to set the clipboard with an OSC 52 escape
+// sequence, which most terminals support.
+export async function copyToClipboard(text: string): Promise<void> {
+	for (const [command, args] of getClipboardCommands()) {
+		if (await pipeTo(command, args, text)) return;
+	}
+	process.stdout.write(`\x1b]52;c;${Buffer.from(text).toString('base64')}\x07`);
+}
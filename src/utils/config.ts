@@ -0,0 +1,359 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { homedir } from 'os';
+import { RankingOptions, DEFAULT_RANKING } from './ranking.js';
+import { DEFAULT_SKIP_PATTERNS, ScanOptions } from './sessionScanner.js';
+import { KeyBindings, DEFAULT_KEY_BINDINGS, SEARCH_ACTIONS, DETAIL_ACTIONS, isValidKeySpec } from './keys.js';
+import { PriceTable, ModelPrice, DEFAULT_PRICES } from './usage.js';
+
+export interface LaunchProfile {
+	name: string;
+	description?: string;
+	command: string;
+	args: string[]; // {sessionId}, {cwd} and {filePath} are substituted
+	env: Record<string, string>; // Added to the inherited environment, same placeholders
+	// Interactive profiles take over the terminal and exit the TUI when they finish;
+	// others (e.g. opening a tmux window) run in the background and return to the TUI
+	interactive: boolean;
+}
+
+export interface Config {
+	projectsRoot?: string; // Unset means ~/.claude/projects
+	skipPatterns: string[];
+	ranking: RankingOptions;
+	keys: KeyBindings;
+	defaultProfile: string;
+	launchProfiles: LaunchProfile[];
+	prices: PriceTable; // USD per million tokens, by model name or prefix
+}
+
+export class ConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ConfigError';
+	}
+}
+
+export const BUILTIN_PROFILES: LaunchProfile[] = [
+	{
+		name: 'fork',
+		description: 'Fork the session',
+		command: 'claude',
+		args: ['--resume', '{sessionId}', '--fork-session'],
+		env: {},
+		interactive: true,
+	},
+	{
+		name: 'resume',
+		description: 'Resume the session in place',
+		command: 'claude',
+		args: ['--resume', '{sessionId}'],
+		env: {},
+		interactive: true,
+	},
+];
+
+export function getConfigDir(): string {
+	const base = process.env.XDG_CONFIG_HOME || path.join(homedir(), '.config');
+	return path.join(base, 'claude-session-search');
+}
+
+export function getConfigPath(): string {
+	return path.join(getConfigDir(), 'config.json');
+}
+
+export function getDefaultConfig(): Config {
+	return {
+		skipPatterns: [...DEFAULT_SKIP_PATTERNS],
+		ranking: { ...DEFAULT_RANKING, weights: { ...DEFAULT_RANKING.weights } },
+		keys: {
+			search: { ...DEFAULT_KEY_BINDINGS.search },
+			detail: { ...DEFAULT_KEY_BINDINGS.detail },
+		},
+		defaultProfile: BUILTIN_PROFILES[0].name,
+		launchProfiles: [...BUILTIN_PROFILES],
+		prices: { ...DEFAULT_PRICES },
+	};
+}
+
+// Scanner options for the configured projects root and skip patterns
+export function getScanOptions(config: Config, rebuildIndex = false): ScanOptions {
+	return { rebuildIndex, projectsRoot: config.projectsRoot, skipPatterns: config.skipPatterns };
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+	return isObject(value) && Object.values(value).every(item => typeof item === 'string');
+}
+
+function checkKnownKeys(where: string, data: Record<string, unknown>, known: readonly string[]): void {
+	for (const key of Object.keys(data)) {
+		if (!known.includes(key)) {
+			const setting = where ? `${where}.${key}` : key;
+			throw new ConfigError(`unknown setting "${setting}" (expected one of: ${known.join(', ')})`);
+		}
+	}
+}
+
+function expandHome(value: string): string {
+	return value === '~' || value.startsWith('~/') ? path.join(homedir(), value.slice(1)) : value;
+}
+
+function parseRanking(raw: unknown, ranking: RankingOptions): void {
+	if (!isObject(raw)) {
+		throw new ConfigError('ranking must be an object');
+	}
+	checkKnownKeys('ranking', raw, ['weights', 'fuzzyThreshold', 'starredFirst']);
+
+	if (raw.weights !== undefined) {
+		if (!isObject(raw.weights)) {
+			throw new ConfigError('ranking.weights must be an object');
+		}
+		checkKnownKeys('ranking.weights', raw.weights, ['search', 'distance', 'age']);
+		for (const [name, value] of Object.entries(raw.weights)) {
+			if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+				throw new ConfigError(`ranking.weights.${name} must be a non-negative number`);
+			}
+			ranking.weights[name as keyof RankingOptions['weights']] = value;
+		}
+		if (ranking.weights.search + ranking.weights.distance + ranking.weights.age === 0) {
+			throw new ConfigError('ranking.weights must not all be zero');
+		}
+	}
+
+	if (raw.fuzzyThreshold !== undefined) {
+		const threshold = raw.fuzzyThreshold;
+		if (typeof threshold !== 'number' || !(threshold >= 0 && threshold <= 1)) {
+			throw new ConfigError('ranking.fuzzyThreshold must be a number between 0 and 1');
+		}
+		ranking.fuzzyThreshold = threshold;
+	}
+
+	if (raw.starredFirst !== undefined) {
+		if (typeof raw.starredFirst !== 'boolean') {
+			throw new ConfigError('ranking.starredFirst must be true or false');
+		}
+		ranking.starredFirst = raw.starredFirst;
+	}
+}
+
+// { "add": [...], "remove": [...] } applied to the default skip patterns
+function parseSkipPatterns(raw: unknown, defaults: string[]): string[] {
+	if (!isObject(raw)) {
+		throw new ConfigError('skipPatterns must be an object with "add" and/or "remove" lists');
+	}
+	checkKnownKeys('skipPatterns', raw, ['add', 'remove']);
+	if (raw.add !== undefined && !isStringArray(raw.add)) {
+		throw new ConfigError('skipPatterns.add must be an array of strings');
+	}
+	if (raw.remove !== undefined && !isStringArray(raw.remove)) {
+		throw new ConfigError('skipPatterns.remove must be an array of strings');
+	}
+
+	const remove = (raw.remove as string[] | undefined) ?? [];
+	for (const pattern of remove) {
+		if (!defaults.includes(pattern)) {
+			throw new ConfigError(`skipPatterns.remove: "${pattern}" is not a default pattern (defaults: ${defaults.join(', ')})`);
+		}
+	}
+	const add = (raw.add as string[] | undefined) ?? [];
+	for (const pattern of add) {
+		try {
+			new RegExp(pattern, 'i');
+		} catch (err) {
+			throw new ConfigError(`skipPatterns.add: invalid regular expression "${pattern}": ${err instanceof Error ? err.message : err}`);
+		}
+	}
+
+	return [...defaults.filter(pattern => !remove.includes(pattern)), ...add];
+}
+
+function parseKeyMap<A extends string>(view: string, raw: unknown, actions: readonly A[], keys: Record<A, string[]>): void {
+	const where = `keys.${view}`;
+	if (!isObject(raw)) {
+		throw new ConfigError(`${where} must be an object`);
+	}
+	checkKnownKeys(where, raw, actions);
+
+	for (const [action, value] of Object.entries(raw)) {
+		// A single key or a list of keys; an empty list unbinds the action
+		const bindings = typeof value === 'string' ? [value] : value;
+		if (!isStringArray(bindings)) {
+			throw new ConfigError(`${where}.${action} must be a key or an array of keys`);
+		}
+		const invalid = bindings.find(binding => !isValidKeySpec(binding));
+		if (invalid !== undefined) {
+			throw new ConfigError(`${where}.${action}: invalid key "${invalid}" (use e.g. "x", "ctrl+x", "enter", "escape", "tab", "up", "pagedown")`);
+		}
+		keys[action as A] = bindings;
+	}
+}
+
+function parseKeys(raw: unknown, keys: KeyBindings): void {
+	if (!isObject(raw)) {
+		throw new ConfigError('keys must be an object');
+	}
+	checkKnownKeys('keys', raw, ['search', 'detail']);
+	if (raw.search !== undefined) parseKeyMap('search', raw.search, SEARCH_ACTIONS, keys.search);
+	if (raw.detail !== undefined) parseKeyMap('detail', raw.detail, DETAIL_ACTIONS, keys.detail);
+}
+
+// Input and output prices are required; cache prices default to the API's
+// multiples of the input price
+function parseModelPrice(model: string, raw: unknown): ModelPrice {
+	const where = `prices.${model}`;
+	if (!isObject(raw)) {
+		throw new ConfigError(`${where} must be an object`);
+	}
+	checkKnownKeys(where, raw, ['input', 'output', 'cacheWrite', 'cacheRead']);
+	for (const name of ['input', 'output', 'cacheWrite', 'cacheRead']) {
+		const value = raw[name];
+		const required = name === 'input' || name === 'output';
+		if ((required || value !== undefined) && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+			throw new ConfigError(`${where}.${name} must be a non-negative number (USD per million tokens)`);
+		}
+	}
+	const input = raw.input as number;
+	return {
+		input,
+		output: raw.output as number,
+		cacheWrite: (raw.cacheWrite as number | undefined) ?? input * 1.25,
+		cacheRead: (raw.cacheRead as number | undefined) ?? input * 0.1,
+	};
+}
+
+function parseLaunchProfile(name: string, raw: unknown): LaunchProfile {
+	const where = `launchProfiles.${name}`;
+	if (!isObject(raw)) {
+		throw new ConfigError(`${where} must be an object`);
+	}
+
+	const profile = raw;
+	checkKnownKeys(where, profile, ['description', 'command', 'args', 'env', 'interactive']);
+	if (typeof profile.command !== 'string' || !profile.command.trim()) {
+		throw new ConfigError(`${where}.command must be a non-empty string`);
+	}
+	if (profile.args !== undefined && !isStringArray(profile.args)) {
+		throw new ConfigError(`${where}.args must be an array of strings`);
+	}
+	if (profile.env !== undefined && !isStringRecord(profile.env)) {
+		throw new ConfigError(`${where}.env must be an object of string values`);
+	}
+	if (profile.interactive !== undefined && typeof profile.interactive !== 'boolean') {
+		throw new ConfigError(`${where}.interactive must be true or false`);
+	}
+	if (profile.description !== undefined && typeof profile.description !== 'string') {
+		throw new ConfigError(`${where}.description must be a string`);
+	}
+
+	return {
+		name,
+		description: profile.description as string | undefined,
+		command: profile.command,
+		args: (profile.args as string[] | undefined) ?? [],
+		env: (profile.env as Record<string, string> | undefined) ?? {},
+		interactive: (profile.interactive as boolean | undefined) ?? true,
+	};
+}
+
+// Validate parsed config JSON, merging it over the defaults. Throws ConfigError.
+export function parseConfig(raw: unknown): Config {
+	const config = getDefaultConfig();
+	if (!isObject(raw)) {
+		throw new ConfigError('config must be a JSON object');
+	}
+	const data = raw;
+	checkKnownKeys('', data, ['projectsRoot', 'skipPatterns', 'ranking', 'keys', 'defaultProfile', 'launchProfiles', 'prices']);
+
+	if (data.projectsRoot !== undefined) {
+		if (typeof data.projectsRoot !== 'string' || !data.projectsRoot.trim()) {
+			throw new ConfigError('projectsRoot must be a non-empty string');
+		}
+		config.projectsRoot = path.resolve(expandHome(data.projectsRoot));
+	}
+	if (data.skipPatterns !== undefined) {
+		config.skipPatterns = parseSkipPatterns(data.skipPatterns, config.skipPatterns);
+	}
+	if (data.ranking !== undefined) {
+		parseRanking(data.ranking, config.ranking);
+	}
+	if (data.keys !== undefined) {
+		parseKeys(data.keys, config.keys);
+	}
+
+	if (data.prices !== undefined) {
+		if (!isObject(data.prices)) {
+			throw new ConfigError('prices must be an object keyed by model name or prefix');
+		}
+		// Entries replace the built-in price for the same key and add the rest
+		for (const [model, rawPrice] of Object.entries(data.prices)) {
+			config.prices[model] = parseModelPrice(model, rawPrice);
+		}
+	}
+
+	if (data.launchProfiles !== undefined) {
+		if (!isObject(data.launchProfiles)) {
+			throw new ConfigError('launchProfiles must be an object keyed by profile name');
+		}
+		for (const [name, rawProfile] of Object.entries(data.launchProfiles)) {
+			const profile = parseLaunchProfile(name, rawProfile);
+			// A user profile with a built-in name replaces the built-in
+			const existing = config.launchProfiles.findIndex(p => p.name === name);
+			if (existing >= 0) {
+				config.launchProfiles[existing] = profile;
+			} else {
+				config.launchProfiles.push(profile);
+			}
+		}
+	}
+
+	if (data.defaultProfile !== undefined) {
+		if (typeof data.defaultProfile !== 'string') {
+			throw new ConfigError('defaultProfile must be a string');
+		}
+		if (!config.launchProfiles.some(p => p.name === data.defaultProfile)) {
+			const names = config.launchProfiles.map(p => p.name).join(', ');
+			throw new ConfigError(`defaultProfile "${data.defaultProfile}" is not a launch profile (available: ${names})`);
+		}
+		config.defaultProfile = data.defaultProfile;
+	}
+
+	return config;
+}
+
+// Load the user config, or the defaults if there is no config file
+export async function loadConfig(): Promise<Config> {
+	const configPath = getConfigPath();
+	let content: string;
+	try {
+		content = await fs.readFile(configPath, 'utf-8');
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+			return getDefaultConfig();
+		}
+		throw new ConfigError(`Cannot read ${configPath}: ${err instanceof Error ? err.message : err}`);
+	}
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content);
+	} catch (err) {
+		throw new ConfigError(`${configPath} is not valid JSON: ${err instanceof Error ? err.message : err}`);
+	}
+
+	try {
+		return parseConfig(raw);
+	} catch (err) {
+		if (err instanceof ConfigError) {
+			throw new ConfigError(`${configPath}: ${err.message}`);
+		}
+		throw err;
+	}
+}
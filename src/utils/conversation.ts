@@ -0,0 +1,156 @@
+import { SessionMessage, isConversationMessage, getMessageText } from './sessionScanner.js';
+import { ToolCallEntry, ToolResultEntry, formatToolInput } from './tools.js';
+import type { Subagent } from './subagents.js';
+
+// The detail view's conversation list. Messages with text are rows of their
+// own; the tool calls between them form a group that is either one collapsed
+// row or a header row followed by a row per call. A call that started a
+// subagent can in turn be expanded into the subagent's conversation.
+
+export interface ToolCallRow {
+	call: ToolCallEntry;
+	result?: ToolResultEntry;
+	subagent?: Subagent; // Set for calls that started a subagent
+}
+
+export type TimelineItem =
+	| { kind: 'message'; message: SessionMessage; messageIndex: number }
+	| { kind: 'tools'; calls: ToolCallRow[] };
+
+interface RowBase {
+	key: string; // Stable across re-layouts, for keeping the selection
+	position: number; // Index of the timeline item the row belongs to
+	depth?: number; // 1 for rows of an expanded subagent conversation
+}
+
+export type ConversationRow = RowBase & (
+	| { kind: 'message'; message: SessionMessage; messageIndex: number }
+	| { kind: 'tools'; calls: ToolCallRow[]; expanded: boolean }
+	| { kind: 'tool'; call: ToolCallRow; expanded: boolean } // expanded: showing the subagent's conversation
+);
+
+// Group tool calls between text messages, pairing each call with its result
+// and with the subagent it started
+export function buildTimeline(messages: SessionMessage[], subagents: Subagent[] = []): TimelineItem[] {
+	const items: TimelineItem[] = [];
+	const callsById = new Map<string, ToolCallRow>();
+	let messageIndex = 0;
+	let group: ToolCallRow[] | null = null;
+
+	for (const msg of messages) {
+		if (isConversationMessage(msg)) {
+			items.push({ kind: 'message', message: msg, messageIndex: messageIndex++ });
+			group = null;
+		}
+
+		for (const entry of msg.tools || []) {
+			if (entry.kind === 'call') {
+				const row: ToolCallRow = { call: entry, subagent: subagents.find(s => s.toolUseId && s.toolUseId === entry.id) };
+				if (!group) {
+					group = [];
+					items.push({ kind: 'tools', calls: group });
+				}
+				group.push(row);
+				if (entry.id) callsById.set(entry.id, row);
+			} else if (entry.toolUseId) {
+				const row = callsById.get(entry.toolUseId);
+				if (row) row.result = entry;
+			}
+		}
+	}
+
+	return items;
+}
+
+// A subagent's conversation below the call that started it: its messages and
+// each of its tool calls, without further nesting
+function buildSubagentRows(parentKey: string, position: number, timeline: TimelineItem[]): ConversationRow[] {
+	return timeline.flatMap((item, i): ConversationRow[] => (item.kind === 'message'
+		? [{ kind: 'message', key: `${parentKey}/m${item.messageIndex}`, position, depth: 1, message: item.message, messageIndex: item.messageIndex }]
+		: item.calls.map((call, j) => ({ kind: 'tool', key: `${parentKey}/t${i}:${j}`, position, depth: 1, call, expanded: false }))));
+}
+
+// Lay out the timeline as rows. expanded holds the positions of expanded groups,
+// subagents the timelines of expanded subagents by agent id.
+export function buildRows(
+	timeline: TimelineItem[],
+	showTools: boolean,
+	expanded: Set<number>,
+	subagents: Map<string, TimelineItem[]> = new Map(),
+): ConversationRow[] {
+	const rows: ConversationRow[] = [];
+	timeline.forEach((item, position) => {
+		if (item.kind === 'message') {
+			rows.push({ kind: 'message', key: `m${item.messageIndex}`, position, message: item.message, messageIndex: item.messageIndex });
+		} else if (showTools) {
+			const isExpanded = expanded.has(position);
+			rows.push({ kind: 'tools', key: `g${position}`, position, calls: item.calls, expanded: isExpanded });
+			if (isExpanded) {
+				item.calls.forEach((call, i) => {
+					const key = `t${position}:${i}`;
+					const subagentTimeline = call.subagent && subagents.get(call.subagent.id);
+					rows.push({ kind: 'tool', key, position, call, expanded: !!subagentTimeline });
+					if (subagentTimeline) {
+						rows.push(...buildSubagentRows(key, position, subagentTimeline));
+					}
+				});
+			}
+		}
+	});
+	return rows;
+}
+
+// Where the row with the given key ended up after a re-layout, or else the
+// closest row before it (e.g. the group header of a collapsed call)
+export function findRow(rows: ConversationRow[], key: string, position: number): number {
+	const exact = rows.findIndex(row => row.key === key);
+	if (exact >= 0) return exact;
+	let closest = 0;
+	rows.forEach((row, i) => {
+		if (row.position <= position) closest = i;
+	});
+	return closest;
+}
+
+// One-line description of a call, e.g. "Bash npm test"
+export function getCallLine(row: ToolCallRow): string {
+	const { name, summary } = row.call;
+	const line = summary ? `${name} ${summary.replace(/\s+/g, ' ')}` : name;
+	return row.result?.isError ? `${line} (error)` : line;
+}
+
+// A call's arguments and result
+function getCallText(row: ToolCallRow): string {
+	const { call, result } = row;
+	const input = formatToolInput(call.input);
+	const parts = [input ? `${call.name}\n${input}` : call.name];
+	if (result) {
+		parts.push(`${result.isError ? 'Error' : 'Result'}:\n${result.text || '(empty)'}`);
+	}
+	return parts.join('\n\n');
+}
+
+// Full text of a row, for the preview and the pager
+export function getRowText(row: ConversationRow): string {
+	switch (row.kind) {
+		case 'message':
+			return getMessageText(row.message);
+		case 'tools':
+			return row.calls.map(getCallLine).join('\n');
+		case 'tool':
+			return getCallText(row.call);
+	}
+}
+
+// Text searched for a row. Expanded group headers match nothing since their
+// calls have rows of their own.
+export function getRowSearchText(row: ConversationRow): string {
+	switch (row.kind) {
+		case 'message':
+			return getMessageText(row.message);
+		case 'tools':
+			return row.expanded ? '' : row.calls.map(getCallText).join('\n');
+		case 'tool':
+			return getCallText(row.call);
+	}
+}
@@ -0,0 +1,272 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+	Session,
+	SessionMessage,
+	ContentBlock,
+	MessageRole,
+	extractTextContent,
+	getMessageText,
+	isConversationMessage,
+} from './sessionScanner.js';
+
+export type ExportFormat = 'md' | 'html' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'json'];
+
+export interface ExportOptions {
+	format: ExportFormat;
+	includeThinking?: boolean;
+	includeTools?: boolean;
+}
+
+export interface ExportedToolCall {
+	id?: string;
+	name: string;
+	input: Record<string, unknown>;
+}
+
+export interface ExportedToolResult {
+	toolUseId?: string;
+	content: string;
+	isError?: boolean;
+}
+
+export interface ExportedMessage {
+	role: MessageRole;
+	timestamp?: string;
+	text: string;
+	thinking?: string[];
+	toolCalls?: ExportedToolCall[];
+	toolResults?: ExportedToolResult[];
+}
+
+export interface ExportedSession {
+	id: string;
+	cwd: string;
+	timestamp: string;
+	branches: string[];
+	messages: ExportedMessage[];
+}
+
+function getBlocks(msg: SessionMessage): ContentBlock[] {
+	const content = msg.message?.content;
+	if (!content) return [];
+	return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+// Build the cleaned conversation. Messages follow the detail view's filtering,
+// plus thinking-only and tool-only messages when those are requested.
+export function buildExport(session: Session, messages: SessionMessage[], options: Omit<ExportOptions, 'format'> = {}): ExportedSession {
+	const exported: ExportedMessage[] = [];
+
+	for (const msg of messages) {
+		if (msg.type !== 'user' && msg.type !== 'assistant') continue;
+
+		const blocks = getBlocks(msg);
+		const thinking = options.includeThinking
+			? blocks.filter(b => b.type === 'thinking' && b.thinking?.trim()).map(b => b.thinking!.trim())
+			: [];
+		const toolCalls: ExportedToolCall[] = options.includeTools
+			? blocks.filter(b => b.type === 'tool_use').map(b => ({ id: b.id, name: b.name || 'unknown', input: b.input || {} }))
+			: [];
+		const toolResults: ExportedToolResult[] = options.includeTools
+			? blocks.filter(b => b.type === 'tool_result').map(b => ({
+				toolUseId: b.tool_use_id,
+				content: b.content ? extractTextContent(b.content).trim() : '',
+				isError: b.is_error || undefined,
+			}))
+			: [];
+
+		if (!isConversationMessage(msg) && thinking.length === 0 && toolCalls.length === 0 && toolResults.length === 0) {
+			continue;
+		}
+
+		const entry: ExportedMessage = {
+			role: msg.message?.role === 'assistant' ? 'assistant' : 'user',
+			timestamp: msg.timestamp,
+			text: getMessageText(msg),
+		};
+		if (thinking.length > 0) entry.thinking = thinking;
+		if (toolCalls.length > 0) entry.toolCalls = toolCalls;
+		if (toolResults.length > 0) entry.toolResults = toolResults;
+		exported.push(entry);
+	}
+
+	return {
+		id: session.id,
+		cwd: session.cwd,
+		timestamp: session.timestamp.toISOString(),
+		branches: session.branches,
+		messages: exported,
+	};
+}
+
+// Tool results arrive as user messages; label them by what they hold
+function getRoleLabel(msg: ExportedMessage): string {
+	if (msg.role === 'assistant') return 'Assistant';
+	return !msg.text && msg.toolResults ? 'Tool result' : 'User';
+}
+
+function formatTimestamp(timestamp?: string): string {
+	if (!timestamp) return '';
+	const date = new Date(timestamp);
+	return isNaN(date.getTime()) ? '' : date.toLocaleString();
+}
+
+function getTitle(session: Session): string {
+	const firstLine = session.firstMessage.split('\n').find(line => line.trim()) || session.id;
+	const title = firstLine.trim();
+	return title.length > 80 ? title.slice(0, 77) + '...' : title;
+}
+
+// Pick a code fence longer than any backtick run inside the content
+function fence(content: string): string {
+	const longest = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+	return '`'.repeat(longest + 1);
+}
+
+function toMarkdown(session: Session, data: ExportedSession): string {
+	const lines: string[] = [
+		`# ${getTitle(session)}`,
+		'',
+		`- **Session:** \`${data.id}\``,
+		`- **Directory:** \`${data.cwd}\``,
+		`- **Date:** ${session.timestamp.toLocaleString()}`,
+	];
+	if (data.branches.length > 0) {
+		lines.push(`- **Branch:** ${data.branches.map(b => `\`${b}\``).join(', ')}`);
+	}
+	lines.push(`- **Messages:** ${data.messages.length}`, '');
+
+	for (const msg of data.messages) {
+		const time = formatTimestamp(msg.timestamp);
+		lines.push('---', '', `### ${getRoleLabel(msg)}${time ? ` · ${time}` : ''}`, '');
+
+		for (const thought of msg.thinking || []) {
+			lines.push('<details>', '<summary>Thinking</summary>', '', thought, '', '</details>', '');
+		}
+		if (msg.text) {
+			lines.push(msg.text, '');
+		}
+		for (const call of msg.toolCalls || []) {
+			const input = JSON.stringify(call.input, null, 2);
+			const marker = fence(input);
+			lines.push(`**Tool call:** \`${call.name}\``, '', `${marker}json`, input, marker, '');
+		}
+		for (const result of msg.toolResults || []) {
+			const marker = fence(result.content);
+			lines.push(`**Tool result${result.isError ? ' (error)' : ''}:**`, '', marker, result.content, marker, '');
+		}
+	}
+
+	return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 900px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 0.25rem 1rem; }
+dt { font-weight: 600; }
+dd { margin: 0; font-family: ui-monospace, monospace; }
+.msg { border: 1px solid #d0d7de; border-radius: 6px; margin: 1rem 0; padding: 0.75rem 1rem; }
+.msg.user { background: #f6f8fa; }
+.msg h3 { margin: 0 0 0.5rem; font-size: 0.95rem; }
+.msg h3 time { font-weight: normal; color: #656d76; margin-left: 0.5rem; }
+.text { white-space: pre-wrap; }
+pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+details { color: #656d76; margin-bottom: 0.5rem; }
+.tool { font-size: 0.9rem; }
+.error { color: #cf222e; }
+`;
+
+function toHtml(session: Session, data: ExportedSession): string {
+	const title = escapeHtml(getTitle(session));
+	const parts: string[] = [
+		'<!DOCTYPE html>',
+		'<html lang="en">',
+		'<head>',
+		'<meta charset="utf-8">',
+		`<title>${title}</title>`,
+		`<style>${HTML_STYLE}</style>`,
+		'</head>',
+		'<body>',
+		'<header>',
+		`<h1>${title}</h1>`,
+		'<dl>',
+		`<dt>Session</dt><dd>${escapeHtml(data.id)}</dd>`,
+		`<dt>Directory</dt><dd>${escapeHtml(data.cwd)}</dd>`,
+		`<dt>Date</dt><dd>${escapeHtml(session.timestamp.toLocaleString())}</dd>`,
+	];
+	if (data.branches.length > 0) {
+		parts.push(`<dt>Branch</dt><dd>${escapeHtml(data.branches.join(', '))}</dd>`);
+	}
+	parts.push(`<dt>Messages</dt><dd>${data.messages.length}</dd>`, '</dl>', '</header>', '<main>');
+
+	for (const msg of data.messages) {
+		const time = formatTimestamp(msg.timestamp);
+		parts.push(`<section class="msg ${msg.role}">`);
+		parts.push(`<h3>${getRoleLabel(msg)}${time ? `<time>${escapeHtml(time)}</time>` : ''}</h3>`);
+		for (const thought of msg.thinking || []) {
+			parts.push(`<details><summary>Thinking</summary><div class="text">${escapeHtml(thought)}</div></details>`);
+		}
+		if (msg.text) {
+			parts.push(`<div class="text">${escapeHtml(msg.text)}</div>`);
+		}
+		for (const call of msg.toolCalls || []) {
+			parts.push(`<div class="tool"><strong>Tool call:</strong> <code>${escapeHtml(call.name)}</code><pre>${escapeHtml(JSON.stringify(call.input, null, 2))}</pre></div>`);
+		}
+		for (const result of msg.toolResults || []) {
+			parts.push(`<div class="tool${result.isError ? ' error' : ''}"><strong>Tool result${result.isError ? ' (error)' : ''}:</strong><pre>${escapeHtml(result.content)}</pre></div>`);
+		}
+		parts.push('</section>');
+	}
+
+	parts.push('</main>', '</body>', '</html>', '');
+	return parts.join('\n');
+}
+
+export function exportSession(session: Session, messages: SessionMessage[], options: ExportOptions): string {
+	const data = buildExport(session, messages, options);
+
+	switch (options.format) {
+		case 'md':
+			return toMarkdown(session, data);
+		case 'html':
+			return toHtml(session, data);
+		case 'json':
+			return JSON.stringify(data, null, 2) + '\n';
+	}
+}
+
+// Default file name for an export, e.g. claude-session-1a2b3c4d.md, or with
+// copy > 1 claude-session-1a2b3c4d-2.md
+export function getExportFileName(session: Session, format: ExportFormat, copy = 1): string {
+	return `claude-session-${session.id.slice(0, 8)}${copy > 1 ? `-${copy}` : ''}.${format}`;
+}
+
+const MAX_EXPORT_COPIES = 100;
+
+// Export a session into dir under its default file name. Existing files are
+// never overwritten: a taken name gets a -2, -3, ... suffix instead. Resolves
+// to the path written.
+export async function writeExportFile(session: Session, messages: SessionMessage[], options: ExportOptions, dir: string): Promise<string> {
+	const output = exportSession(session, messages, options);
+	for (let copy = 1; ; copy++) {
+		const filePath = path.resolve(dir, getExportFileName(session, options.format, copy));
+		try {
+			await fs.writeFile(filePath, output, { encoding: 'utf-8', flag: 'wx' });
+			return filePath;
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== 'EEXIST' || copy >= MAX_EXPORT_COPIES) throw err;
+		}
+	}
+}
@@ -0,0 +1,124 @@
+import path from 'path';
+import { homedir } from 'os';
+import type { SessionMessage } from './sessionScanner.js';
+
+export type FileOperation = 'read' | 'edit' | 'write';
+
+export interface SessionFile {
+	path: string; // Absolute
+	operations: Partial<Record<FileOperation, number>>; // Number of tool calls of each kind
+}
+
+const TOOL_OPERATIONS: Record<string, FileOperation> = {
+	Read: 'read',
+	Edit: 'edit',
+	MultiEdit: 'edit',
+	Write: 'write',
+};
+
+// Files read or changed by the session's tool calls, in order of first use.
+// Relative paths are resolved against the cwd the call was made in.
+export function extractSessionFiles(messages: SessionMessage[], cwd: string): SessionFile[] {
+	const files = new Map<string, SessionFile>();
+
+	for (const msg of messages) {
+		for (const entry of msg.tools || []) {
+			if (entry.kind !== 'call') continue;
+			const operation = TOOL_OPERATIONS[entry.name];
+			const filePath = entry.input.file_path;
+			if (!operation || typeof filePath !== 'string' || !filePath) continue;
+
+			const resolved = path.resolve(msg.cwd || cwd, filePath);
+			let file = files.get(resolved);
+			if (!file) {
+				file = { path: resolved, operations: {} };
+				files.set(resolved, file);
+			}
+			file.operations[operation] = (file.operations[operation] || 0) + 1;
+		}
+	}
+
+	return [...files.values()];
+}
+
+// Combine two file lists, adding up the operations on files in both
+export function mergeSessionFiles(a: SessionFile[], b: SessionFile[]): SessionFile[] {
+	const files = new Map(a.map(file => [file.path, { path: file.path, operations: { ...file.operations } }]));
+	for (const file of b) {
+		const existing = files.get(file.path);
+		if (!existing) {
+			files.set(file.path, { path: file.path, operations: { ...file.operations } });
+			continue;
+		}
+		for (const [operation, count] of Object.entries(file.operations) as [FileOperation, number][]) {
+			existing.operations[operation] = (existing.operations[operation] || 0) + count;
+		}
+	}
+	return [...files.values()];
+}
+
+// e.g. "write, edit×3, read"
+export function formatOperations(operations: SessionFile['operations']): string {
+	return (['write', 'edit', 'read'] as FileOperation[])
+		.filter(operation => operations[operation])
+		.map(operation => (operations[operation]! > 1 ? `${operation}×${operations[operation]}` : operation))
+		.join(', ');
+}
+
+// Files that were changed rather than only read come first
+export function sortFilesByChanges(files: SessionFile[]): SessionFile[] {
+	const changes = (file: SessionFile) => (file.operations.write || 0) + (file.operations.edit || 0);
+	return [...files].sort((a, b) => changes(b) - changes(a) || a.path.localeCompare(b.path));
+}
+
+// Show paths inside the session's directory relative to it
+export function getDisplayPath(filePath: string, cwd: string): string {
+	const relative = path.relative(cwd, filePath);
+	return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : filePath;
+}
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function globToRegex(glob: string): string {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			// ** spans directories; **/ also matches no directory at all
+			if (glob[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i += 1;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += escapeRegex(char);
+		}
+	}
+	return source;
+}
+
+// Match file paths against a path or glob. Absolute patterns match from the
+// root; relative ones match the end of the path (src/foo.ts, *.tsx). A plain
+// path also matches everything below it when it names a directory.
+export function compileFilePattern(pattern: string): (filePath: string) => boolean {
+	let value = pattern.trim();
+	if (value === '~' || value.startsWith('~/')) {
+		value = path.join(homedir(), value.slice(1));
+	}
+	value = value.replace(/\/+$/, '') || '/';
+
+	const isAbsolute = value.startsWith('/');
+	const prefix = isAbsolute ? '^' : '(?:^|/)';
+	const regex = /[*?]/.test(value)
+		? new RegExp(`${prefix}${globToRegex(value)}$`)
+		: new RegExp(`${prefix}${escapeRegex(value)}(?:/|$)`);
+	return filePath => regex.test(filePath);
+}
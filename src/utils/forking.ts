@@ -0,0 +1,204 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { Session, ContentBlock } from './sessionScanner.js';
+
+// "Resume from here": copy a session's conversation up to a chosen message into
+// a new transcript with a fresh session id, next to the original, so Claude Code
+// can resume it. The original transcript is only ever read.
+
+export class ForkError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ForkError';
+	}
+}
+
+export interface ForkedTranscript {
+	sessionId: string;
+	filePath: string;
+	messageCount: number; // User + assistant entries copied
+}
+
+// A transcript line as written, with only the fields used here typed. Other
+// fields are copied through untouched.
+interface TranscriptEntry {
+	type?: string;
+	uuid?: string;
+	parentUuid?: string | null;
+	logicalParentUuid?: string | null; // Set on compaction boundaries, whose parentUuid is null
+	leafUuid?: string; // Set on summaries
+	sessionId?: string;
+	isSidechain?: boolean;
+	message?: { role?: string; content?: string | ContentBlock[] };
+	[field: string]: unknown;
+}
+
+function parseEntries(content: string): TranscriptEntry[] {
+	return content
+		.split('\n')
+		.filter(line => line.trim())
+		.map(line => {
+			try {
+				return JSON.parse(line);
+			} catch {
+				return null;
+			}
+		})
+		.filter((entry): entry is TranscriptEntry => entry !== null && typeof entry === 'object');
+}
+
+function getParentUuid(entry: TranscriptEntry): string | null | undefined {
+	return entry.parentUuid ?? entry.logicalParentUuid;
+}
+
+function contentBlocks(entry: TranscriptEntry): ContentBlock[] {
+	const content = entry.message?.content;
+	return Array.isArray(content) ? content : [];
+}
+
+function isConversationEntry(entry: TranscriptEntry): boolean {
+	return (entry.type === 'user' || entry.type === 'assistant') && !entry.isSidechain;
+}
+
+// The entries a resumed session needs for the conversation to end at the given
+// message: the message and its ancestors (through compactions), plus summaries
+// and other metadata written before it. Retries and branches left behind by
+// edits, everything after the message and subagent entries are left out.
+function selectEntries(entries: TranscriptEntry[], uuid: string): TranscriptEntry[] {
+	const byUuid = new Map<string, TranscriptEntry>();
+	for (const entry of entries) {
+		if (entry.uuid && !entry.isSidechain) byUuid.set(entry.uuid, entry);
+	}
+	const target = byUuid.get(uuid);
+	if (!target) {
+		throw new ForkError('the message is not in the session transcript');
+	}
+
+	const ancestors = new Set<string>();
+	for (let entry: TranscriptEntry | undefined = target; entry?.uuid && !ancestors.has(entry.uuid);) {
+		ancestors.add(entry.uuid);
+		const parentUuid = getParentUuid(entry);
+		entry = parentUuid ? byUuid.get(parentUuid) : undefined;
+	}
+
+	const targetIndex = entries.indexOf(target);
+	return entries.filter((entry, i) => {
+		if (entry.isSidechain) return false;
+		if (entry.uuid) return ancestors.has(entry.uuid);
+		// Metadata without a uuid: keep what was written before the message,
+		// except summaries of the conversation's later parts
+		return i < targetIndex && (!entry.leafUuid || ancestors.has(entry.leafUuid));
+	});
+}
+
+// The chosen message may be followed by the results of its tool calls, which
+// aren't copied. Calls without a result are removed, since the API rejects them;
+// entries left without content are dropped and their children relinked.
+function removeUnansweredCalls(entries: TranscriptEntry[]): TranscriptEntry[] {
+	const answered = new Set<string>();
+	for (const entry of entries) {
+		for (const block of contentBlocks(entry)) {
+			if (block.type === 'tool_result' && block.tool_use_id) answered.add(block.tool_use_id);
+		}
+	}
+
+	const droppedParents = new Map<string, string | null | undefined>();
+	const kept: TranscriptEntry[] = [];
+	for (const entry of entries) {
+		const blocks = contentBlocks(entry);
+		const unanswered = blocks.filter(block => block.type === 'tool_use' && (!block.id || !answered.has(block.id)));
+		if (unanswered.length === 0) {
+			kept.push(entry);
+			continue;
+		}
+		const remaining = blocks.filter(block => !unanswered.includes(block));
+		if (remaining.length > 0) {
+			kept.push({ ...entry, message: { ...entry.message, content: remaining } });
+		} else if (entry.uuid) {
+			droppedParents.set(entry.uuid, entry.parentUuid);
+		}
+	}
+
+	const resolveParent = (parentUuid: string | null | undefined): string | null | undefined => {
+		const seen = new Set<string>();
+		while (parentUuid && droppedParents.has(parentUuid) && !seen.has(parentUuid)) {
+			seen.add(parentUuid);
+			parentUuid = droppedParents.get(parentUuid);
+		}
+		return parentUuid;
+	};
+	return kept.map(entry => (entry.parentUuid && droppedParents.has(entry.parentUuid)
+		? { ...entry, parentUuid: resolveParent(entry.parentUuid) ?? null }
+		: entry));
+}
+
+// Check the written transcript before anything is launched from it: every line
+// parses and belongs to the new session, the conversation ends at the chosen
+// message, and every tool call has its result
+function validateTranscript(content: string, sessionId: string, uuid: string): void {
+	const lines = content.split('\n').filter(line => line.trim());
+	const entries = parseEntries(content);
+	if (entries.length !== lines.length) {
+		throw new ForkError('the new transcript has unreadable lines');
+	}
+	if (entries.some(entry => entry.sessionId !== undefined && entry.sessionId !== sessionId)) {
+		throw new ForkError('the new transcript has entries of another session');
+	}
+
+	const conversation = entries.filter(isConversationEntry);
+	if (conversation.length === 0) {
+		throw new ForkError('the new transcript has no messages');
+	}
+	if (conversation[conversation.length - 1].uuid !== uuid) {
+		throw new ForkError('the new transcript does not end at the chosen message');
+	}
+
+	const uuids = new Set(entries.map(entry => entry.uuid).filter(Boolean));
+	const calls = new Set<string>();
+	const results = new Set<string>();
+	for (const entry of conversation) {
+		if (entry.parentUuid && !uuids.has(entry.parentUuid)) {
+			throw new ForkError(`the new transcript is missing message ${entry.parentUuid}`);
+		}
+		for (const block of contentBlocks(entry)) {
+			if (block.type === 'tool_use' && block.id) calls.add(block.id);
+			if (block.type === 'tool_result' && block.tool_use_id) results.add(block.tool_use_id);
+		}
+	}
+	if ([...calls].some(id => !results.has(id))) {
+		throw new ForkError('the new transcript has tool calls without results');
+	}
+}
+
+// Write a copy of the session that ends at the message with the given uuid.
+// Throws ForkError (or a file system error) if no valid copy could be written;
+// nothing is left behind in that case.
+export async function forkSessionAt(session: Session, uuid: string): Promise<ForkedTranscript> {
+	const original = parseEntries(await fs.readFile(session.filePath, 'utf-8'));
+	const entries = removeUnansweredCalls(selectEntries(original, uuid));
+
+	// Uuids are kept, which is also what Claude Code does when forking, so the
+	// copy shows up as a fork of the original
+	const sessionId = randomUUID();
+	const content = entries
+		.map(entry => JSON.stringify(entry.sessionId !== undefined ? { ...entry, sessionId } : entry))
+		.join('\n') + '\n';
+	validateTranscript(content, sessionId, uuid);
+
+	const filePath = path.join(path.dirname(session.filePath), `${sessionId}.jsonl`);
+	// wx: never overwrite an existing transcript
+	await fs.writeFile(filePath, content, { encoding: 'utf-8', flag: 'wx' });
+	try {
+		validateTranscript(await fs.readFile(filePath, 'utf-8'), sessionId, uuid);
+	} catch (err) {
+		await fs.rm(filePath, { force: true });
+		throw err;
+	}
+
+	return {
+		sessionId,
+		filePath,
+		messageCount: entries.filter(entry => entry.type === 'user' || entry.type === 'assistant').length,
+	};
+}
@@ -0,0 +1,107 @@
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface GitCommit {
+	hash: string;
+	shortHash: string;
+	date: Date; // Author date
+	author: string;
+	subject: string;
+}
+
+export class GitError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'GitError';
+	}
+}
+
+const FIELD_SEPARATOR = '\x1f';
+const GIT_TIMEOUT = 10000;
+
+// What git says when cwd is outside any repository, or doesn't exist any more
+const NOT_A_REPOSITORY = /not a git repository|cannot change to/i;
+
+// Resolves to stdout, or rejects with a GitError saying why git failed
+function runGit(cwd: string, args: string[]): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile('git', ['-C', cwd, ...args], { timeout: GIT_TIMEOUT, maxBuffer: 4 * 1024 * 1024 }, (err, stdout, stderr) => {
+			if (!err) {
+				resolve(stdout);
+			} else if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+				reject(new GitError('git is not installed or not on PATH'));
+			} else if ((err as NodeJS.ErrnoException).code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+				reject(new GitError(`git ${args[0]} printed too much output`));
+			} else if (err.killed) {
+				reject(new GitError(`git ${args[0]} timed out after ${GIT_TIMEOUT / 1000}s`));
+			} else {
+				// stderr has git's own explanation; err.message only says "Command failed: ..."
+				reject(new GitError(stderr.trim().split('\n')[0] || err.message));
+			}
+		});
+	});
+}
+
+function parseCommit(line: string): GitCommit | null {
+	const [hash, shortHash, date, author, ...subject] = line.split(FIELD_SEPARATOR);
+	const parsedDate = new Date(date);
+	if (!hash || isNaN(parsedDate.getTime())) return null;
+	return { hash, shortHash, date: parsedDate, author, subject: subject.join(FIELD_SEPARATOR) };
+}
+
+// Commits on local branches of the repository containing cwd that were
+// authored between since and until, newest first. Resolves to null when cwd
+// is not (or no longer) inside a git repository; rejects with a GitError when
+// git can't be run or fails otherwise.
+export async function getCommitsBetween(cwd: string, since: Date, until: Date): Promise<GitCommit[] | null> {
+	let output: string;
+	try {
+		// --since compares the committer date, which is never before the author
+		// date, so it only narrows the walk; the window is checked by author date below
+		output = await runGit(cwd, [
+			'log',
+			'--branches',
+			`--since=${since.toISOString()}`,
+			`--format=%H${FIELD_SEPARATOR}%h${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%s`,
+		]);
+	} catch (err) {
+		if (err instanceof GitError && NOT_A_REPOSITORY.test(err.message)) return null;
+		throw err;
+	}
+
+	return output
+		.split('\n')
+		.filter(Boolean)
+		.map(parseCommit)
+		.filter((commit): commit is GitCommit => commit !== null)
+		.filter(commit => commit.date.getTime() >= since.getTime() && commit.date.getTime() <= until.getTime())
+		.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+// Repository roots found so far, by directory
+const repoRoots = new Map<string, Promise<string | null>>();
+
+// The root of the git repository containing dir: the nearest directory with a
+// .git entry (a file in worktrees and submodules). Resolves to null outside a
+// repository. Looks at the filesystem only, so it is cheap enough to call for
+// every project.
+export function findRepoRoot(dir: string): Promise<string | null> {
+	const resolved = path.resolve(dir);
+	let root = repoRoots.get(resolved);
+	if (!root) {
+		root = (async () => {
+			for (let current = resolved; ; current = path.dirname(current)) {
+				try {
+					await fs.stat(path.join(current, '.git'));
+					return current;
+				} catch {
+					// Not here, try the parent
+				}
+				if (path.dirname(current) === current) return null;
+			}
+		})();
+		repoRoots.set(resolved, root);
+	}
+	return root;
+}
@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { homedir } from 'os';
+import type { Session, SearchText } from './sessionScanner.js';
+import type { SessionFile } from './files.js';
+import type { Subagent, TaskCall } from './subagents.js';
+import type { MessageChain } from './lineage.js';
+import type { ModelUsage, ResponseUsage } from './usage.js';
+
+// Bump whenever the shape of CachedSession changes or the extraction logic
+// produces different results, so stale indexes are rebuilt automatically.
+export const INDEX_VERSION = 13;
+
+export interface CachedSession {
+	id: string;
+	directory: string;
+	filePath: string;
+	firstMessage: string;
+	search: SearchText;
+	messageCount: number;
+	timestamp: string;
+	lastTimestamp: string;
+	cwd: string;
+	branches: string[];
+	models: string[];
+	responses: ResponseUsage[];
+	files: SessionFile[];
+	taskCalls: TaskCall[];
+	chain: MessageChain;
+}
+
+export interface CachedSubagent {
+	id: string;
+	parentId: string;
+	filePath: string;
+	prompt: string;
+	search: SearchText;
+	messageCount: number;
+	timestamp: string;
+	files: SessionFile[];
+	usage: ModelUsage;
+}
+
+export interface IndexEntry {
+	size: number;
+	mtimeMs: number;
+	// null marks a file that was parsed but skipped (warmup, command, subagent, etc.)
+	session: CachedSession | null;
+	subagent?: CachedSubagent; // Set for subagent transcripts, which are attached to their parent after scanning
+	malformedLines?: number; // Lines that weren't valid JSON, when there were any
+}
+
+export interface SessionIndex {
+	version: number;
+	skipPatterns?: string[]; // First-message skip patterns the entries were built with
+	entries: Record<string, IndexEntry>;
+}
+
+export function getCacheDir(): string {
+	const base = process.env.XDG_CACHE_HOME || path.join(homedir(), '.cache');
+	return path.join(base, 'claude-session-search');
+}
+
+export function getIndexPath(): string {
+	return path.join(getCacheDir(), 'index.json');
+}
+
+export function createEmptyIndex(): SessionIndex {
+	return { version: INDEX_VERSION, entries: {} };
+}
+
+// The index this process last read or wrote, reused while the file is unchanged
+// so that rescans (e.g. when a transcript changes) don't parse it again
+let lastIndex: { size: number; mtimeMs: number; index: SessionIndex } | null = null;
+
+export async function loadIndex(): Promise<SessionIndex> {
+	try {
+		const indexPath = getIndexPath();
+		const stat = await fs.stat(indexPath);
+		if (lastIndex && lastIndex.size === stat.size && lastIndex.mtimeMs === stat.mtimeMs) {
+			return lastIndex.index;
+		}
+		const content = await fs.readFile(indexPath, 'utf-8');
+		const parsed = JSON.parse(content);
+		if (parsed?.version !== INDEX_VERSION || typeof parsed.entries !== 'object' || parsed.entries === null) {
+			return createEmptyIndex();
+		}
+		lastIndex = { size: stat.size, mtimeMs: stat.mtimeMs, index: parsed };
+		return parsed as SessionIndex;
+	} catch {
+		// Missing or corrupt index - start from scratch
+		return createEmptyIndex();
+	}
+}
+
+export async function saveIndex(index: SessionIndex): Promise<void> {
+	const indexPath = getIndexPath();
+	await fs.mkdir(path.dirname(indexPath), { recursive: true });
+	// Write to a temp file first so a crash never leaves a truncated index behind
+	const tmpPath = `${indexPath}.${process.pid}.tmp`;
+	await fs.writeFile(tmpPath, JSON.stringify(index), 'utf-8');
+	await fs.rename(tmpPath, indexPath);
+	const stat = await fs.stat(indexPath);
+	lastIndex = { size: stat.size, mtimeMs: stat.mtimeMs, index };
+}
+
+export function isEntryFresh(entry: IndexEntry | undefined, size: number, mtimeMs: number): entry is IndexEntry {
+	return !!entry && entry.size === size && entry.mtimeMs === mtimeMs;
+}
+
+export function toCachedSession(session: Session): CachedSession {
+	return {
+		id: session.id,
+		directory: session.directory,
+		filePath: session.filePath,
+		firstMessage: session.firstMessage,
+		search: session.search,
+		messageCount: session.messageCount,
+		timestamp: session.timestamp.toISOString(),
+		lastTimestamp: session.lastTimestamp.toISOString(),
+		cwd: session.cwd,
+		branches: session.branches,
+		models: session.models,
+		responses: session.responses,
+		files: session.files,
+		taskCalls: session.taskCalls,
+		chain: session.chain,
+	};
+}
+
+export function fromCachedSession(cached: CachedSession): Session {
+	return {
+		id: cached.id,
+		directory: cached.directory,
+		filePath: cached.filePath,
+		firstMessage: cached.firstMessage,
+		search: cached.search,
+		messageCount: cached.messageCount,
+		timestamp: new Date(cached.timestamp),
+		lastTimestamp: new Date(cached.lastTimestamp),
+		cwd: cached.cwd,
+		branches: cached.branches,
+		models: cached.models,
+		responses: cached.responses,
+		files: cached.files,
+		taskCalls: cached.taskCalls,
+		subagents: [],
+		chain: cached.chain,
+		forks: [],
+	};
+}
+
+export function toCachedSubagent(subagent: Subagent): CachedSubagent {
+	return {
+		id: subagent.id,
+		parentId: subagent.parentId,
+		filePath: subagent.filePath,
+		prompt: subagent.prompt,
+		search: subagent.search,
+		messageCount: subagent.messageCount,
+		timestamp: subagent.timestamp.toISOString(),
+		files: subagent.files,
+		usage: subagent.usage,
+	};
+}
+
+export function fromCachedSubagent(cached: CachedSubagent): Subagent {
+	return {
+		id: cached.id,
+		parentId: cached.parentId,
+		filePath: cached.filePath,
+		prompt: cached.prompt,
+		search: cached.search,
+		messageCount: cached.messageCount,
+		timestamp: new Date(cached.timestamp),
+		files: cached.files,
+		usage: cached.usage,
+	};
+}
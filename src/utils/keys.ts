@@ -0,0 +1,187 @@
+import type { Key } from 'ink';
+
+// Key bindings are written as strings: a single character ("e", "G", "/"),
+// a named key ("enter", "escape", "tab", "up", "pagedown", ...), optionally
+// prefixed with "ctrl+" or "meta+" (e.g. "ctrl+e").
+
+export const SEARCH_ACTIONS = [
+	'select', 'cycleMode', 'toggleContext', 'toggleForks', 'refresh', 'star', 'editTags', 'editNote',
+	'toggleStarredFirst', 'delete', 'archive', 'toggleSelect', 'selectAll', 'clearSelection', 'export', 'copyIds', 'stats', 'cycleCost',
+	'toggleProjects', 'expand', 'collapse',
+	'up', 'down', 'halfPageUp', 'halfPageDown', 'top', 'bottom', 'deleteWord',
+] as const;
+
+export const DETAIL_ACTIONS = [
+	'back', 'export', 'open', 'search', 'nextMatch', 'prevMatch', 'launch', 'resumeHere',
+	'toggleTools', 'expandTools', 'files', 'commits', 'lineage', 'star', 'editTags', 'editNote', 'delete', 'archive', 'refresh', 'up', 'down', 'halfPageUp', 'halfPageDown', 'top', 'bottom',
+] as const;
+
+export type SearchAction = typeof SEARCH_ACTIONS[number];
+export type DetailAction = typeof DETAIL_ACTIONS[number];
+
+export type KeyMap<A extends string> = Record<A, string[]>;
+
+export interface KeyBindings {
+	search: KeyMap<SearchAction>;
+	detail: KeyMap<DetailAction>;
+}
+
+const NAVIGATION_KEYS = {
+	up: ['up', 'ctrl+k'],
+	down: ['down', 'ctrl+j'],
+	halfPageUp: ['ctrl+u', 'pageup'],
+	halfPageDown: ['ctrl+d', 'pagedown'],
+	top: ['ctrl+g'],
+	bottom: ['G'],
+};
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+	search: {
+		...NAVIGATION_KEYS,
+		select: ['enter'],
+		cycleMode: ['tab'],
+		toggleContext: ['ctrl+e'],
+		toggleForks: ['ctrl+f'],
+		refresh: ['ctrl+r'],
+		star: ['ctrl+s'],
+		editTags: ['ctrl+t'],
+		editNote: ['ctrl+n'],
+		toggleStarredFirst: ['ctrl+o'],
+		delete: ['ctrl+x'],
+		archive: ['ctrl+y'],
+		toggleSelect: ['ctrl+space'],
+		selectAll: ['ctrl+a'],
+		clearSelection: ['escape'],
+		export: ['ctrl+p'],
+		copyIds: ['ctrl+l'],
+		stats: ['ctrl+v'],
+		cycleCost: ['ctrl+b'],
+		toggleProjects: ['ctrl+q'],
+		expand: ['right', 'meta+l'],
+		collapse: ['left', 'meta+h'],
+		deleteWord: ['ctrl+w'],
+	},
+	detail: {
+		...NAVIGATION_KEYS,
+		back: ['escape'],
+		export: ['e'],
+		open: ['o'],
+		search: ['/'],
+		nextMatch: ['n'],
+		prevMatch: ['N'],
+		launch: ['enter'],
+		resumeHere: ['r'],
+		toggleTools: ['t'],
+		expandTools: ['space'],
+		files: ['f'],
+		commits: ['c'],
+		lineage: ['l'],
+		star: ['s'],
+		editTags: ['#'],
+		editNote: ['a'],
+		delete: ['D'],
+		archive: ['A'],
+		refresh: ['ctrl+r'],
+	},
+};
+
+const NAMED_KEYS: Record<string, (key: Key, input: string) => boolean> = {
+	up: key => key.upArrow,
+	down: key => key.downArrow,
+	left: key => key.leftArrow,
+	right: key => key.rightArrow,
+	pageup: key => key.pageUp,
+	pagedown: key => key.pageDown,
+	enter: key => key.return,
+	escape: key => key.escape,
+	tab: key => key.tab,
+	backspace: key => key.backspace,
+	delete: key => key.delete,
+	// Terminals send ctrl+space as NUL, which Ink reports as ctrl+`
+	space: (key, input) => input === ' ' || (key.ctrl && input === '`'),
+};
+
+const KEY_ALIASES: Record<string, string> = { return: 'enter', esc: 'escape' };
+
+const KEY_LABELS: Record<string, string> = {
+	up: '↑', down: '↓', left: '←', right: '→', pageup: 'PgUp', pagedown: 'PgDn',
+	enter: 'Enter', escape: 'Esc', tab: 'Tab', backspace: 'Backspace', delete: 'Delete', space: 'Space',
+};
+
+interface ParsedKeySpec {
+	ctrl: boolean;
+	meta: boolean;
+	name?: string; // Named key
+	char?: string; // Single character
+}
+
+function parseKeySpec(spec: string): ParsedKeySpec | null {
+	const parsed: ParsedKeySpec = { ctrl: false, meta: false };
+	let rest = spec;
+	for (;;) {
+		const modifier = rest.match(/^(ctrl|meta)\+(.+)$/i);
+		if (!modifier) break;
+		parsed[modifier[1].toLowerCase() as 'ctrl' | 'meta'] = true;
+		rest = modifier[2];
+	}
+
+	if (rest.length === 1) {
+		// Terminals report ctrl+letter without case
+		parsed.char = parsed.ctrl ? rest.toLowerCase() : rest;
+		return parsed;
+	}
+	const name = KEY_ALIASES[rest.toLowerCase()] ?? rest.toLowerCase();
+	if (!NAMED_KEYS[name]) return null;
+	parsed.name = name;
+	return parsed;
+}
+
+export function isValidKeySpec(spec: string): boolean {
+	return parseKeySpec(spec) !== null;
+}
+
+// Whether an Ink keypress matches any of the bindings
+export function matchesKey(bindings: string[], input: string, key: Key): boolean {
+	return bindings.some(spec => {
+		const parsed = parseKeySpec(spec);
+		if (!parsed) return false;
+		if (parsed.name) {
+			// Escape arrives with meta set, so modifiers only count when asked for
+			return NAMED_KEYS[parsed.name](key, input)
+				&& (!parsed.ctrl || key.ctrl)
+				&& (!parsed.meta || key.meta);
+		}
+		return input === parsed.char && key.ctrl === parsed.ctrl && (key.meta && !key.escape) === parsed.meta;
+	});
+}
+
+function formatKeySpec(spec: string): string {
+	const parsed = parseKeySpec(spec);
+	if (!parsed) return spec;
+	const base = parsed.name ? KEY_LABELS[parsed.name] : parsed.ctrl ? parsed.char!.toUpperCase() : parsed.char!;
+	return `${parsed.ctrl ? 'Ctrl+' : ''}${parsed.meta ? 'Meta+' : ''}${base}`;
+}
+
+// Label for the help line: the first binding, or '' when the action is unbound
+export function keyLabel(bindings: string[]): string {
+	return bindings.length > 0 ? formatKeySpec(bindings[0]) : '';
+}
+
+// Label for a pair of actions, e.g. "Ctrl+U/D" or "↑/↓"
+export function keyPairLabel(first: string[], second: string[]): string {
+	const a = keyLabel(first);
+	const b = keyLabel(second);
+	if (!a || !b) return a || b;
+	if (a.startsWith('Ctrl+') && b.startsWith('Ctrl+')) {
+		return `${a}/${b.slice('Ctrl+'.length)}`;
+	}
+	return `${a}/${b}`;
+}
+
+// Join "key: description" help items, leaving out unbound actions
+export function formatHelp(items: Array<[string, string]>): string {
+	return items
+		.filter(([label]) => label)
+		.map(([label, description]) => `${label}: ${description}`)
+		.join(' | ');
+}
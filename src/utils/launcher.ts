@@ -0,0 +1,60 @@
+import { spawn, ChildProcess } from 'child_process';
+import { LaunchProfile } from './config.js';
+import { Session } from './sessionScanner.js';
+
+export interface LaunchHandlers {
+	onError: (message: string) => void;
+	onExit: (code: number) => void;
+}
+
+function expandPlaceholders(value: string, session: Session): string {
+	return value
+		.replace(/\{sessionId\}/g, session.id)
+		.replace(/\{cwd\}/g, session.cwd)
+		.replace(/\{filePath\}/g, session.filePath);
+}
+
+// Human-readable description of a failed launch
+function describeSpawnError(profile: LaunchProfile, err: NodeJS.ErrnoException): string {
+	if (err.code === 'ENOENT') {
+		return `Launch profile "${profile.name}" failed: command not found: ${profile.command}`;
+	}
+	if (err.code === 'EACCES') {
+		return `Launch profile "${profile.name}" failed: permission denied: ${profile.command}`;
+	}
+	return `Launch profile "${profile.name}" failed: ${err.message}`;
+}
+
+// Run a launch profile for the session. Spawn failures are reported through
+// onError rather than thrown, so the caller can stay on screen and show them.
+export function launchSession(session: Session, profile: LaunchProfile, handlers: LaunchHandlers): ChildProcess | null {
+	const args = profile.args.map(arg => expandPlaceholders(arg, session));
+	const env: NodeJS.ProcessEnv = { ...process.env };
+	for (const [key, value] of Object.entries(profile.env)) {
+		env[key] = expandPlaceholders(value, session);
+	}
+
+	let child: ChildProcess;
+	try {
+		child = spawn(profile.command, args, {
+			cwd: session.cwd,
+			env,
+			stdio: profile.interactive ? 'inherit' : 'ignore',
+		});
+	} catch (err) {
+		handlers.onError(describeSpawnError(profile, err as NodeJS.ErrnoException));
+		return null;
+	}
+
+	let failed = false;
+	child.on('error', (err: NodeJS.ErrnoException) => {
+		failed = true;
+		handlers.onError(describeSpawnError(profile, err));
+	});
+	child.on('exit', (code, signal) => {
+		if (failed) return;
+		handlers.onExit(code ?? (signal ? 1 : 0));
+	});
+
+	return child;
+}
@@ -0,0 +1,170 @@
+import type { Session } from './sessionScanner.js';
+
+// Resuming or forking a session copies its conversation, message uuids
+// included, into a new transcript. Sessions that start with the same message
+// form a family; each one descends from the member it shares the longest
+// prefix of messages with, among those that diverged from it earlier.
+
+// The conversation messages along the parentUuid chain ending at the last
+// message, oldest first
+export interface MessageChain {
+	uuids: string[];
+	times: number[]; // Timestamps in ms, 0 when missing
+}
+
+export type ForkRelation = 'resume' | 'fork';
+
+export interface ForkInfo {
+	parentId: string;
+	relation: ForkRelation; // resume: continues from the parent's last message; fork: branched off before it
+	sharedMessages: number; // Conversation messages taken over from the parent
+}
+
+// A session in its family tree, for the list and the lineage view
+export interface LineageRow {
+	session: Session;
+	depth: number; // 0 for the origin
+}
+
+function sharedPrefixLength(a: string[], b: string[]): number {
+	let length = 0;
+	while (length < a.length && length < b.length && a[length] === b[length]) {
+		length++;
+	}
+	return length;
+}
+
+// When a session's own messages began, after the prefix it shares with another.
+// A session with none of its own dates from its last message.
+function divergedAt(session: Session, shared: number): number {
+	return session.chain.times[shared] ?? session.lastTimestamp.getTime();
+}
+
+function isAncestor(candidate: string, id: string, parents: Map<string, string>): boolean {
+	for (let current = parents.get(candidate); current; current = parents.get(current)) {
+		if (current === id) return true;
+	}
+	return false;
+}
+
+// Set forkOf and forks on every session that resumes or forks another
+export function linkForks(sessions: Session[]): Session[] {
+	const families = new Map<string, Session[]>();
+	for (const session of sessions) {
+		const first = session.chain.uuids[0];
+		if (!first) continue;
+		const family = families.get(first) || [];
+		family.push(session);
+		families.set(first, family);
+	}
+
+	const forkInfo = new Map<string, ForkInfo>();
+	const parents = new Map<string, string>();
+	for (const family of families.values()) {
+		if (family.length < 2) continue;
+		// Oldest first, so parents are usually linked before their forks
+		const ordered = [...family].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id.localeCompare(b.id));
+		for (const session of ordered) {
+			let best: { parent: Session; shared: number } | null = null;
+			for (const candidate of ordered) {
+				if (candidate === session) continue;
+				const shared = sharedPrefixLength(session.chain.uuids, candidate.chain.uuids);
+				const candidateTime = divergedAt(candidate, shared);
+				const sessionTime = divergedAt(session, shared);
+				const older = candidateTime < sessionTime || (candidateTime === sessionTime && candidate.id < session.id);
+				if (!older || isAncestor(candidate.id, session.id, parents)) continue;
+				if (!best || shared > best.shared) {
+					best = { parent: candidate, shared };
+				}
+			}
+			if (best) {
+				parents.set(session.id, best.parent.id);
+				forkInfo.set(session.id, {
+					parentId: best.parent.id,
+					relation: best.shared === best.parent.chain.uuids.length ? 'resume' : 'fork',
+					sharedMessages: best.shared,
+				});
+			}
+		}
+	}
+
+	const forks = new Map<string, string[]>();
+	for (const [id, parentId] of parents) {
+		forks.set(parentId, [...(forks.get(parentId) || []), id]);
+	}
+	return sessions.map(session => ({
+		...session,
+		forkOf: forkInfo.get(session.id),
+		forks: forks.get(session.id) || [],
+	}));
+}
+
+export function getLineageRoot(session: Session, sessionsById: Map<string, Session>): Session {
+	let root = session;
+	let parent: Session | undefined;
+	while (root.forkOf && (parent = sessionsById.get(root.forkOf.parentId))) {
+		root = parent;
+	}
+	return root;
+}
+
+// The whole family of a session as a tree: the origin first, each session
+// followed by its forks in the order they diverged
+export function getLineage(session: Session, sessionsById: Map<string, Session>): LineageRow[] {
+	const rows: LineageRow[] = [];
+	const visit = (member: Session, depth: number) => {
+		rows.push({ session: member, depth });
+		const children = member.forks
+			.map(id => sessionsById.get(id))
+			.filter((child): child is Session => !!child)
+			.sort((a, b) => a.forkOf!.sharedMessages - b.forkOf!.sharedMessages || a.lastTimestamp.getTime() - b.lastTimestamp.getTime());
+		for (const child of children) {
+			visit(child, depth + 1);
+		}
+	};
+	visit(getLineageRoot(session, sessionsById), 0);
+	return rows;
+}
+
+// A row of the search list: a session standing for its family, or one of the
+// family's other members listed below it
+export interface FamilyRow {
+	session: Session;
+	depth: number; // 0 for the family's row, the depth in the family tree for the others
+	hiddenForks: number; // Other members of the family in the list, on the family's row
+	expanded: boolean;
+}
+
+// Collapse forks under their origin. Each family gets one row, at the position
+// of its best-ranked member, showing the origin when it is among the results;
+// expanded families list their other members below it as a tree.
+export function collapseForks(ranked: Session[], expanded: Set<string>, sessionsById: Map<string, Session>): FamilyRow[] {
+	const rankedById = new Map(ranked.map(session => [session.id, session]));
+	const members = new Map<string, Set<string>>();
+	for (const session of ranked) {
+		const rootId = getLineageRoot(session, sessionsById).id;
+		members.set(rootId, (members.get(rootId) || new Set()).add(session.id));
+	}
+
+	const rows: FamilyRow[] = [];
+	const listed = new Set<string>();
+	for (const session of ranked) {
+		const root = getLineageRoot(session, sessionsById);
+		if (listed.has(root.id)) continue;
+		listed.add(root.id);
+
+		const family = members.get(root.id)!;
+		const head = rankedById.get(root.id) ?? session;
+		const isExpanded = expanded.has(root.id);
+		rows.push({ session: head, depth: 0, hiddenForks: family.size - 1, expanded: isExpanded });
+		if (isExpanded) {
+			for (const row of getLineage(root, sessionsById)) {
+				const member = rankedById.get(row.session.id);
+				if (member && member !== head) {
+					rows.push({ session: member, depth: Math.max(1, row.depth), hiddenForks: 0, expanded: false });
+				}
+			}
+		}
+	}
+	return rows;
+}
@@ -0,0 +1,229 @@
+// Minimal markdown rendering for the terminal: headings, lists, quotes,
+// emphasis, inline code and fenced code blocks with basic syntax coloring.
+// Output is a list of pre-wrapped lines of styled spans for the pager.
+
+export interface StyledSpan {
+	text: string;
+	bold?: boolean;
+	italic?: boolean;
+	underline?: boolean;
+	dim?: boolean;
+	color?: string;
+}
+
+export type StyledLine = StyledSpan[];
+
+const KEYWORDS = new Set([
+	'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+	'def', 'default', 'defer', 'del', 'do', 'elif', 'else', 'enum', 'except', 'export', 'extends',
+	'false', 'finally', 'fn', 'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements',
+	'import', 'in', 'interface', 'is', 'lambda', 'let', 'match', 'mod', 'module', 'mut', 'new', 'nil',
+	'None', 'not', 'null', 'or', 'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise',
+	'return', 'self', 'static', 'struct', 'super', 'switch', 'this', 'throw', 'trait', 'true', 'True',
+	'False', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while', 'with', 'yield',
+	'then', 'fi', 'done', 'esac', 'echo', 'local', 'readonly',
+]);
+
+// Languages whose line comments start with # rather than //
+const HASH_COMMENT_LANGUAGES = new Set([
+	'bash', 'sh', 'shell', 'zsh', 'fish', 'python', 'py', 'ruby', 'rb', 'yaml', 'yml', 'toml',
+	'perl', 'r', 'dockerfile', 'makefile', 'conf', 'ini', 'hcl', 'terraform', 'tf', 'nix',
+]);
+
+// Color one line of code. Good enough to tell strings, comments, numbers and
+// keywords apart without a real grammar per language.
+export function highlightCode(line: string, language: string): StyledSpan[] {
+	const commentPrefix = HASH_COMMENT_LANGUAGES.has(language.toLowerCase()) ? '#' : '//';
+	const spans: StyledSpan[] = [];
+	const pattern = /("(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?|`(?:[^`\\]|\\.)*`?|\/\/.*$|#.*$|\b\d+(?:\.\d+)?\b|[A-Za-z_$][\w$]*)/g;
+	let position = 0;
+	let match;
+
+	while ((match = pattern.exec(line)) !== null) {
+		const token = match[0];
+		if (match.index > position) {
+			spans.push({ text: line.slice(position, match.index) });
+		}
+
+		if (token.startsWith(commentPrefix)) {
+			// Comment runs to the end of the line
+			spans.push({ text: line.slice(match.index), color: 'gray', italic: true });
+			position = line.length;
+			break;
+		} else if (token.startsWith('//') || token.startsWith('#')) {
+			// Not a comment in this language - color nothing, but don't swallow the rest either
+			spans.push({ text: token[0] });
+			pattern.lastIndex = match.index + 1;
+			position = match.index + 1;
+			continue;
+		} else if (/^["'`]/.test(token)) {
+			spans.push({ text: token, color: 'green' });
+		} else if (/^\d/.test(token)) {
+			spans.push({ text: token, color: 'yellow' });
+		} else if (KEYWORDS.has(token)) {
+			spans.push({ text: token, color: 'magenta', bold: true });
+		} else {
+			spans.push({ text: token });
+		}
+		position = match.index + token.length;
+	}
+
+	if (position < line.length) {
+		spans.push({ text: line.slice(position) });
+	}
+	return spans;
+}
+
+// Parse emphasis, inline code and links within a line of prose
+export function parseInline(text: string, base: StyledSpan = { text: '' }): StyledSpan[] {
+	const spans: StyledSpan[] = [];
+	const pattern = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\*[^*\s][^*]*\*|(?<![\w])_[^_\s][^_]*_(?![\w])|\[[^\]]+\]\([^)]+\))/g;
+	const { text: _, ...style } = base;
+	let position = 0;
+	let match;
+
+	while ((match = pattern.exec(text)) !== null) {
+		const token = match[0];
+		if (match.index > position) {
+			spans.push({ ...style, text: text.slice(position, match.index) });
+		}
+
+		if (token.startsWith('**') || token.startsWith('__')) {
+			spans.push({ ...style, text: token.slice(2, -2), bold: true });
+		} else if (token.startsWith('`')) {
+			spans.push({ ...style, text: token.slice(1, -1), color: 'cyan' });
+		} else if (token.startsWith('[')) {
+			const link = token.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
+			spans.push({ ...style, text: link ? link[1] : token, underline: true, color: 'blue' });
+			if (link) {
+				spans.push({ ...style, text: ` (${link[2]})`, dim: true });
+			}
+		} else {
+			spans.push({ ...style, text: token.slice(1, -1), italic: true });
+		}
+		position = match.index + token.length;
+	}
+
+	if (position < text.length) {
+		spans.push({ ...style, text: text.slice(position) });
+	}
+	return spans;
+}
+
+// Word-wrap spans to the given width. Continuation lines start with `indent`
+// spaces so list items get a hanging indent.
+export function wrapSpans(spans: StyledSpan[], width: number, indent = 0): StyledLine[] {
+	const lines: StyledLine[] = [];
+	let current: StyledLine = [];
+	let length = 0;
+	const usable = Math.max(1, width);
+
+	const pushLine = () => {
+		lines.push(current);
+		current = indent > 0 ? [{ text: ' '.repeat(indent) }] : [];
+		length = indent;
+	};
+
+	for (const span of spans) {
+		const { text: _, ...style } = span;
+		for (const piece of span.text.split(/(\s+)/)) {
+			if (!piece) continue;
+			const isSpace = /^\s+$/.test(piece);
+
+			if (length + piece.length > usable && length > indent) {
+				if (isSpace) {
+					// Break at the space instead of carrying it to the next line
+					pushLine();
+					continue;
+				}
+				pushLine();
+			}
+
+			// Hard-break words longer than a whole line
+			let rest = piece;
+			while (length + rest.length > usable) {
+				const room = Math.max(1, usable - length);
+				current.push({ ...style, text: rest.slice(0, room) });
+				rest = rest.slice(room);
+				pushLine();
+			}
+			if (rest) {
+				current.push({ ...style, text: rest });
+				length += rest.length;
+			}
+		}
+	}
+
+	if (current.length > 0 || lines.length === 0) {
+		lines.push(current);
+	}
+	return lines;
+}
+
+export function renderMarkdown(text: string, width: number): StyledLine[] {
+	const lines: StyledLine[] = [];
+	let codeLanguage: string | null = null; // Set while inside a fenced code block
+
+	for (const rawLine of text.split('\n')) {
+		const line = rawLine.replace(/\t/g, '    ');
+		const fence = line.match(/^\s*(```|~~~)\s*([\w+#.-]*)/);
+
+		if (fence) {
+			if (codeLanguage === null) {
+				codeLanguage = fence[2] || '';
+				const label = codeLanguage || 'code';
+				lines.push([{ text: `┌─ ${label} ${'─'.repeat(Math.max(0, width - label.length - 4))}`, dim: true }]);
+			} else {
+				codeLanguage = null;
+				lines.push([{ text: `└${'─'.repeat(Math.max(0, width - 1))}`, dim: true }]);
+			}
+			continue;
+		}
+
+		if (codeLanguage !== null) {
+			// Code is hard-wrapped, never reflowed
+			const gutter: StyledSpan = { text: '│ ', dim: true };
+			const codeWidth = Math.max(1, width - 2);
+			const highlighted = highlightCode(line, codeLanguage);
+			for (const wrapped of wrapSpans(highlighted.length > 0 ? highlighted : [{ text: '' }], codeWidth)) {
+				lines.push([gutter, ...wrapped]);
+			}
+			continue;
+		}
+
+		const heading = line.match(/^(#{1,6})\s+(.*)$/);
+		if (heading) {
+			const level = heading[1].length;
+			const style: StyledSpan = { text: '', bold: true, color: level <= 2 ? 'cyan' : 'blue', underline: level === 1 };
+			lines.push(...wrapSpans(parseInline(heading[2], style), width));
+			continue;
+		}
+
+		if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+			lines.push([{ text: '─'.repeat(width), dim: true }]);
+			continue;
+		}
+
+		const listItem = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+		if (listItem) {
+			const leading = listItem[1].length;
+			const marker = /^\d/.test(listItem[2]) ? listItem[2] : '•';
+			const prefix = ' '.repeat(leading) + marker + ' ';
+			const spans: StyledSpan[] = [{ text: ' '.repeat(leading) }, { text: marker, color: 'yellow' }, { text: ' ' }];
+			lines.push(...wrapSpans([...spans, ...parseInline(listItem[3])], width, prefix.length));
+			continue;
+		}
+
+		const quote = line.match(/^\s*>\s?(.*)$/);
+		if (quote) {
+			for (const wrapped of wrapSpans(parseInline(quote[1], { text: '', dim: true, italic: true }), width - 2)) {
+				lines.push([{ text: '│ ', color: 'gray' }, ...wrapped]);
+			}
+			continue;
+		}
+
+		lines.push(...wrapSpans(parseInline(line), width));
+	}
+
+	return lines;
+}
@@ -0,0 +1,53 @@
+import fs from 'fs/promises';
+import { readTranscript, Session, SessionMessage } from './sessionScanner.js';
+import type { Subagent } from './subagents.js';
+
+// Sessions only carry the text extracted for search. Full transcripts are read
+// when the detail view needs them: the session it shows and the subagents
+// expanded in it. The last few are kept, so going back and forth between the
+// list and a session doesn't read it again, and changed files are re-read.
+
+const CACHE_SIZE = 5;
+
+interface LoadedTranscript {
+	size: number;
+	mtimeMs: number;
+	messages: SessionMessage[];
+}
+
+// Least recently used first: entries are moved to the end when used
+const cache = new Map<string, LoadedTranscript>();
+
+// The detail view and export only use user and assistant entries, and not
+// Claude Code's structured copies of tool results, which can hold whole files
+function toConversationEntry(msg: SessionMessage): SessionMessage | null {
+	if (msg.type !== 'user' && msg.type !== 'assistant') return null;
+	return msg.toolUseResult === undefined ? msg : { ...msg, toolUseResult: undefined };
+}
+
+async function loadMessages(filePath: string): Promise<SessionMessage[]> {
+	const stat = await fs.stat(filePath);
+	const cached = cache.get(filePath);
+	cache.delete(filePath);
+	if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+		cache.set(filePath, cached);
+		return cached.messages;
+	}
+
+	const { messages } = await readTranscript(filePath, toConversationEntry);
+	cache.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, messages });
+	for (const oldest of cache.keys()) {
+		if (cache.size <= CACHE_SIZE) break;
+		cache.delete(oldest);
+	}
+	return messages;
+}
+
+export function loadSessionMessages(session: Session): Promise<SessionMessage[]> {
+	return loadMessages(session.filePath);
+}
+
+// A subagent's conversation, for expanding it in the parent's detail view
+export function loadSubagentMessages(subagent: Subagent): Promise<SessionMessage[]> {
+	return loadMessages(subagent.filePath);
+}
@@ -0,0 +1,50 @@
+import type { Session } from './sessionScanner.js';
+import { collapseForks, FamilyRow } from './lineage.js';
+
+// The search list grouped by project: the git repository a session ran in, or
+// its cwd outside one. Each project gets a row that expands to its sessions.
+
+export interface ProjectGroup {
+	root: string; // Repository root or cwd
+	sessions: Session[]; // The project's listed sessions, in ranked order
+	lastActive: Date;
+}
+
+// A row of the search list: a session (see collapseForks) or, when grouped, a project
+export type ListRow =
+	| ({ kind: 'session' } & FamilyRow)
+	| { kind: 'project'; project: ProjectGroup; expanded: boolean };
+
+export function toSessionRows(rows: FamilyRow[]): ListRow[] {
+	return rows.map(row => ({ kind: 'session', ...row }));
+}
+
+// Group ranked sessions by project, in order of each project's best-ranked
+// session. Forks are collapsed within their project; projects without listed
+// sessions are left out. roots maps a cwd to its repository root.
+export function buildProjectTree(
+	ranked: Session[],
+	roots: Map<string, string>,
+	expandedProjects: Set<string>,
+	expandedForks: Set<string>,
+	sessionsById: Map<string, Session>,
+): ListRow[] {
+	const groups = new Map<string, ProjectGroup>();
+	for (const session of ranked) {
+		const root = roots.get(session.cwd) ?? session.cwd;
+		const group = groups.get(root) ?? { root, sessions: [], lastActive: session.lastTimestamp };
+		group.sessions.push(session);
+		if (session.lastTimestamp > group.lastActive) group.lastActive = session.lastTimestamp;
+		groups.set(root, group);
+	}
+
+	const rows: ListRow[] = [];
+	for (const group of groups.values()) {
+		const expanded = expandedProjects.has(group.root);
+		rows.push({ kind: 'project', project: group, expanded });
+		if (expanded) {
+			rows.push(...toSessionRows(collapseForks(group.sessions, expandedForks, sessionsById)));
+		}
+	}
+	return rows;
+}
@@ -0,0 +1,172 @@
+import { Session } from './sessionScanner.js';
+import { compileFilePattern } from './files.js';
+
+export type FilterKey = 'dir' | 'after' | 'before' | 'role' | 'branch' | 'min-msgs' | 'max-msgs' | 'file' | 'tag' | 'is';
+
+export interface QueryFilter {
+	key: FilterKey;
+	value: string;
+	label: string; // Original token, used for display
+	test: (session: Session) => boolean;
+}
+
+export interface ParsedQuery {
+	text: string; // Free text left over for fuzzy matching
+	filters: QueryFilter[];
+	excludes: string[]; // Terms from -word tokens, lowercased
+	role?: 'user' | 'assistant'; // Restrict text matching to one side of the conversation
+	errors: string[];
+}
+
+const FILTER_KEYS: FilterKey[] = ['dir', 'after', 'before', 'role', 'branch', 'min-msgs', 'max-msgs', 'file', 'tag', 'is'];
+
+const RELATIVE_UNITS: Record<string, number> = {
+	h: 3600000,
+	d: 86400000,
+	w: 7 * 86400000,
+	m: 30 * 86400000,
+	y: 365 * 86400000,
+};
+
+interface Token {
+	text: string;
+	start: number; // Offset in the query
+}
+
+// Split on whitespace, keeping double-quoted sections (e.g. dir:"my project") together
+function tokenize(query: string): Token[] {
+	const tokens: Token[] = [];
+	const pattern = /(\S*"[^"]*"\S*|\S+)/g;
+	let match;
+	while ((match = pattern.exec(query)) !== null) {
+		tokens.push({ text: match[0], start: match.index });
+	}
+	return tokens;
+}
+
+function unquote(value: string): string {
+	return value.replace(/"/g, '');
+}
+
+// Parse an absolute date (YYYY-MM-DD, local time) or a relative age like 7d, 2w, 3m
+export function parseDateValue(value: string): Date | null {
+	const relative = value.match(/^(\d+)([hdwmy])$/);
+	if (relative) {
+		return new Date(Date.now() - Number(relative[1]) * RELATIVE_UNITS[relative[2]]);
+	}
+
+	const absolute = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (absolute) {
+		const [year, month, day] = [Number(absolute[1]), Number(absolute[2]), Number(absolute[3])];
+		const date = new Date(year, month - 1, day);
+		// Out-of-range parts (2026-13-45) roll over into another date instead of failing
+		const valid = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+		return valid ? date : null;
+	}
+
+	return null;
+}
+
+function buildFilter(key: FilterKey, value: string, label: string): QueryFilter | string {
+	if (!value) {
+		return `${key}: needs a value`;
+	}
+
+	switch (key) {
+		case 'dir': {
+			const needle = value.toLowerCase();
+			return { key, value, label, test: s => s.cwd.toLowerCase().includes(needle) };
+		}
+		case 'after':
+		case 'before': {
+			const date = parseDateValue(value);
+			if (!date) {
+				return `${key}: expected YYYY-MM-DD or an age like 7d, got "${value}"`;
+			}
+			const time = date.getTime();
+			return key === 'after'
+				? { key, value, label, test: s => s.timestamp.getTime() >= time }
+				: { key, value, label, test: s => s.timestamp.getTime() < time };
+		}
+		case 'role': {
+			if (value !== 'user' && value !== 'assistant') {
+				return `role: expected user or assistant, got "${value}"`;
+			}
+			// Role narrows which text is searched rather than which sessions are kept
+			return { key, value, label, test: () => true };
+		}
+		case 'branch': {
+			const needle = value.toLowerCase();
+			return { key, value, label, test: s => s.branches.some(b => b.toLowerCase().includes(needle)) };
+		}
+		case 'min-msgs':
+		case 'max-msgs': {
+			const count = Number(value);
+			if (!Number.isInteger(count) || count < 0) {
+				return `${key}: expected a number, got "${value}"`;
+			}
+			return key === 'min-msgs'
+				? { key, value, label, test: s => s.messageCount >= count }
+				: { key, value, label, test: s => s.messageCount <= count };
+		}
+		case 'file': {
+			const matches = compileFilePattern(value);
+			return { key, value, label, test: s => s.files.some(file => matches(file.path)) };
+		}
+		case 'tag': {
+			const tag = value.replace(/^#+/, '').toLowerCase();
+			return { key, value, label, test: s => !!s.annotation?.tags?.includes(tag) };
+		}
+		case 'is': {
+			if (value !== 'starred') {
+				return `is: expected starred, got "${value}"`;
+			}
+			return { key, value, label, test: s => !!s.annotation?.starred };
+		}
+	}
+}
+
+export interface ParseOptions {
+	// Free text is matched as typed (exact and regex modes): -word tokens and
+	// whitespace stay in the text, and a "quoted phrase" loses its quotes
+	literal?: boolean;
+}
+
+// Pull filter tokens (key:value) and exclusions (-word) out of a search query.
+// Unknown key:value tokens are left in the text so things like URLs still search.
+export function parseQuery(query: string, options: ParseOptions = {}): ParsedQuery {
+	const parsed: ParsedQuery = { text: '', filters: [], excludes: [], errors: [] };
+	const textTokens: string[] = [];
+	let literalText = '';
+	let previousEnd = 0;
+
+	for (const { text: token, start } of tokenize(query)) {
+		// The whitespace as typed between this token and the one before it
+		const separator = query.slice(previousEnd, start);
+		previousEnd = start + token.length;
+		const colon = token.indexOf(':');
+		const key = colon > 0 ? token.slice(0, colon).toLowerCase() : '';
+
+		if (FILTER_KEYS.includes(key as FilterKey)) {
+			const value = unquote(token.slice(colon + 1));
+			const result = buildFilter(key as FilterKey, value, token);
+			if (typeof result === 'string') {
+				parsed.errors.push(result);
+			} else {
+				parsed.filters.push(result);
+				if (result.key === 'role') {
+					parsed.role = result.value as 'user' | 'assistant';
+				}
+			}
+		} else if (options.literal) {
+			literalText += (literalText ? separator : '') + token.replace(/^"(.*)"$/, '$1');
+		} else if (token.startsWith('-') && token.length > 1) {
+			parsed.excludes.push(unquote(token.slice(1)).toLowerCase());
+		} else {
+			textTokens.push(token);
+		}
+	}
+
+	parsed.text = options.literal ? literalText : textTokens.join(' ');
+	return parsed;
+}
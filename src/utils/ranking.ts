@@ -0,0 +1,308 @@
+import Fuse from 'fuse.js';
+import { Session, SearchText, SearchEntry, MessageRole } from './sessionScanner.js';
+import type { Subagent } from './subagents.js';
+import { ParsedQuery } from './queryParser.js';
+
+export type SearchMode = 'fuzzy' | 'exact' | 'regex';
+
+export const SEARCH_MODES: SearchMode[] = ['fuzzy', 'exact', 'regex'];
+
+// Where a query matched inside a session, for snippets and highlighting
+export interface SearchMatch {
+	role: MessageRole;
+	messageIndex: number; // Position in the detail view's conversation list
+	text: string; // Full text of the matching message
+	ranges: Array<[number, number]>; // [start, end) offsets into text
+	tool?: string; // Set when the match is in a tool call or result
+	subagent?: string; // Set when the match is in a subagent's conversation: its agent id
+}
+
+export interface RankedSession {
+	session: Session;
+	score: number; // Combined score, lower is better
+	match?: SearchMatch; // Unset when only the directory matched, or without free text
+}
+
+// Weights of the combined score (lower is better) and how loose fuzzy matching is
+export interface RankingOptions {
+	weights: {
+		search: number;
+		distance: number; // Directory distance from the current directory
+		age: number;
+	};
+	fuzzyThreshold: number; // Fuse threshold: 0 = exact, 1 = match anything
+	starredFirst: boolean; // List starred sessions before the rest, each in ranked order
+}
+
+export const DEFAULT_RANKING: RankingOptions = {
+	weights: { search: 0.7, distance: 0.2, age: 0.1 },
+	fuzzyThreshold: 0.4,
+	starredFirst: false,
+};
+
+interface SearchResult {
+	session: Session;
+	searchScore: number; // 0 = perfect match, 1 = worst match
+	match?: SearchMatch;
+}
+
+// Stop counting after this many matches so huge sessions don't stall a keystroke
+const MAX_MATCH_COUNT = 10000;
+// Only the first few ranges of a message are kept for highlighting
+const MAX_HIGHLIGHT_RANGES = 50;
+
+export function nextSearchMode(mode: SearchMode): SearchMode {
+	return SEARCH_MODES[(SEARCH_MODES.indexOf(mode) + 1) % SEARCH_MODES.length];
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Build the matcher for exact/regex modes. Matching is case-smart: it is
+// case-insensitive unless the query contains an uppercase letter.
+// Throws for an invalid regular expression.
+export function compileSearchPattern(text: string, mode: 'exact' | 'regex'): RegExp {
+	const flags = /[A-Z]/.test(text) ? 'g' : 'gi';
+	return new RegExp(mode === 'exact' ? escapeRegExp(text) : text, flags);
+}
+
+// Describe why the query can't be used in the given mode, if it can't
+export function getPatternError(text: string, mode: SearchMode): string | null {
+	if (mode !== 'regex' || !text.trim()) return null;
+	try {
+		compileSearchPattern(text, mode);
+		return null;
+	} catch (err) {
+		return err instanceof Error ? err.message : 'Invalid regular expression';
+	}
+}
+
+export function findMatches(pattern: RegExp, text: string): { count: number; ranges: Array<[number, number]> } {
+	let count = 0;
+	const ranges: Array<[number, number]> = [];
+	pattern.lastIndex = 0;
+	let match;
+	while (count < MAX_MATCH_COUNT && (match = pattern.exec(text)) !== null) {
+		if (match[0].length === 0) {
+			// Avoid looping forever on zero-width matches
+			pattern.lastIndex++;
+			continue;
+		}
+		count++;
+		if (ranges.length < MAX_HIGHLIGHT_RANGES) {
+			ranges.push([match.index, match.index + match[0].length]);
+		}
+	}
+	return { count, ranges };
+}
+
+// A text searched for a session: its own, or a subagent's, whose matches point
+// at the call that started it
+interface SearchSource {
+	search: SearchText;
+	subagent?: Subagent;
+}
+
+// What Fuse searches for a session: a whole source text, or with a role one
+// entry of that role at a time
+interface FuzzyTarget {
+	source: SearchSource;
+	entry?: SearchEntry;
+	text: string;
+}
+
+function getSearchSources(session: Session): SearchSource[] {
+	return [{ search: session.search }, ...session.subagents.map(subagent => ({ search: subagent.search, subagent }))];
+}
+
+function getEntryText(search: SearchText, entry: SearchEntry): string {
+	return search.text.slice(entry.start, entry.end);
+}
+
+function toSearchMatch(source: SearchSource, entry: SearchEntry, ranges: Array<[number, number]>): SearchMatch {
+	return {
+		role: entry.role,
+		messageIndex: source.subagent ? source.subagent.parentIndex ?? 0 : entry.index,
+		text: getEntryText(source.search, entry),
+		ranges,
+		tool: entry.tool,
+		subagent: source.subagent?.id,
+	};
+}
+
+function getFuzzyTargets(session: Session, role?: MessageRole): FuzzyTarget[] {
+	const sources = getSearchSources(session);
+	if (!role) {
+		return sources.map(source => ({ source, text: source.search.text }));
+	}
+	return sources.flatMap(source => source.search.entries
+		.filter(entry => entry.role === role)
+		.map(entry => ({ source, entry, text: getEntryText(source.search, entry) })));
+}
+
+// Map Fuse match indices over a target's text back to the message they fall
+// in, picking the message that holds the longest matched run
+function locateFuzzyMatch(target: FuzzyTarget, indices: ReadonlyArray<[number, number]>, minLength: number): SearchMatch | undefined {
+	const ranges = indices
+		.map(([start, end]): [number, number] => [start, end + 1]) // Fuse ends are inclusive
+		.filter(([start, end]) => end - start >= minLength);
+	if (ranges.length === 0) return undefined;
+
+	if (target.entry) {
+		return toSearchMatch(target.source, target.entry, ranges.slice(0, MAX_HIGHLIGHT_RANGES));
+	}
+
+	const longest = ranges.reduce((best, range) => (range[1] - range[0] > best[1] - best[0] ? range : best));
+	const entry = target.source.search.entries.find(entry => longest[0] >= entry.start && longest[0] < entry.end);
+	if (!entry) return undefined;
+	const local = ranges
+		.filter(([start, end]) => start >= entry.start && end <= entry.end)
+		.map(([start, end]): [number, number] => [start - entry.start, end - entry.start])
+		.slice(0, MAX_HIGHLIGHT_RANGES);
+	return toSearchMatch(target.source, entry, local);
+}
+
+// Apply the query's filters and exclusions, keeping the input order
+function filterSessions(sessions: Session[], query: ParsedQuery): Session[] {
+	if (query.filters.length === 0 && query.excludes.length === 0) {
+		return sessions;
+	}
+
+	// Exclusions are lowercase; matching them case-insensitively spares a lowercase copy of every text
+	const excludes = query.excludes.map(term => new RegExp(escapeRegExp(term), 'i'));
+	return sessions.filter(session => {
+		if (!query.filters.every(filter => filter.test(session))) return false;
+		if (excludes.length > 0) {
+			const texts = getSearchSources(session).map(source => source.search.text);
+			if (excludes.some(exclude => texts.some(text => exclude.test(text)))) return false;
+		}
+		return true;
+	});
+}
+
+// Search scores from Fuse
+function fuzzySearch(candidates: Session[], query: ParsedQuery, threshold: number): SearchResult[] {
+	// Built once per search, so the match can be traced back to where it was found
+	const targets = new Map(candidates.map(session => [session, getFuzzyTargets(session, query.role)]));
+	const fuse = new Fuse(candidates, {
+		keys: [
+			{ name: 'firstMessage', weight: 2 },
+			{ name: 'directory', weight: 1 },
+			{ name: 'cwd', weight: 1 },
+		],
+		threshold,
+		includeScore: true,
+		includeMatches: true,
+		getFn: (session, path) => {
+			if (path[0] === 'firstMessage') {
+				return targets.get(session)!.map(target => target.text);
+			}
+			return session[path[0] as 'directory' | 'cwd'];
+		},
+	});
+
+	// Fuzzy matching reports single stray characters; only highlight real runs
+	const minLength = Math.min(2, query.text.length);
+
+	return fuse.search(query.text).map(result => {
+		const sessionTargets = targets.get(result.item)!;
+		let match: SearchMatch | undefined;
+		for (const textMatch of result.matches ?? []) {
+			if (textMatch.key !== 'firstMessage' || textMatch.refIndex === undefined) continue;
+			match = locateFuzzyMatch(sessionTargets[textMatch.refIndex], textMatch.indices, minLength);
+			if (match) break;
+		}
+		return { session: result.item, searchScore: result.score || 0, match };
+	});
+}
+
+// Search scores from match counts, normalized so the session with the most matches scores 0
+function patternSearch(candidates: Session[], query: ParsedQuery, mode: 'exact' | 'regex'): SearchResult[] {
+	let pattern: RegExp;
+	try {
+		pattern = compileSearchPattern(query.text, mode);
+	} catch {
+		// Invalid regex - the view reports it via getPatternError
+		return [];
+	}
+
+	const counted = candidates
+		.map(session => {
+			let count = findMatches(pattern, session.cwd).count;
+			let match: SearchMatch | undefined;
+			let bestCount = 0;
+
+			// The message with the most matches provides the snippet
+			for (const source of getSearchSources(session)) {
+				for (const entry of source.search.entries) {
+					if (query.role && entry.role !== query.role) continue;
+					const found = findMatches(pattern, getEntryText(source.search, entry));
+					count += found.count;
+					if (found.count > bestCount) {
+						bestCount = found.count;
+						match = toSearchMatch(source, entry, found.ranges);
+					}
+				}
+			}
+
+			return { session, count, match };
+		})
+		.filter(result => result.count > 0);
+
+	const maxCount = Math.max(...counted.map(r => r.count), 1);
+	return counted.map(({ session, count, match }) => ({
+		session,
+		searchScore: 1 - Math.log(1 + count) / Math.log(1 + maxCount),
+		match,
+	}));
+}
+
+// Rank sessions against a parsed query combined with directory proximity and
+// recency. Without free text the scanner's order is kept.
+export function rankSessions(
+	sessions: Session[],
+	query: ParsedQuery,
+	mode: SearchMode = 'fuzzy',
+	options: RankingOptions = DEFAULT_RANKING,
+): RankedSession[] {
+	const candidates = filterSessions(sessions, query);
+
+	if (!query.text.trim()) {
+		return starredFirst(candidates.map(session => ({ session, score: 0 })), options);
+	}
+
+	const results = mode === 'fuzzy'
+		? fuzzySearch(candidates, query, options.fuzzyThreshold)
+		: patternSearch(candidates, query, mode);
+
+	// Calculate combined score: search (70%) + distance (20%) + recency (10%) by default
+	const { weights } = options;
+	const now = Date.now();
+	const maxDistance = Math.max(...sessions.map(s => s.distance || 0), 1);
+	const maxAge = Math.max(...sessions.map(s => now - s.timestamp.getTime()), 1);
+
+	const scoredResults = results.map(({ session, searchScore, match }) => {
+		const distanceScore = (session.distance || 0) / maxDistance; // 0 = same dir, 1 = farthest
+		const ageScore = (now - session.timestamp.getTime()) / maxAge; // 0 = newest, 1 = oldest
+
+		// Combined score (lower is better)
+		const combinedScore = (searchScore * weights.search) + (distanceScore * weights.distance) + (ageScore * weights.age);
+
+		return { session, score: combinedScore, match };
+	});
+
+	// Sort by combined score
+	scoredResults.sort((a, b) => a.score - b.score);
+
+	return starredFirst(scoredResults, options);
+}
+
+// Move starred sessions to the front when asked to, keeping the order otherwise
+function starredFirst(ranked: RankedSession[], options: RankingOptions): RankedSession[] {
+	if (!options.starredFirst) return ranked;
+	return [
+		...ranked.filter(result => result.session.annotation?.starred),
+		...ranked.filter(result => !result.session.annotation?.starred),
+	];
+}
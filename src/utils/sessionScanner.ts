@@ -1,17 +1,89 @@
 import fs from 'fs/promises';
 import path from 'path';
+import readline from 'readline';
 import { homedir } from 'os';
+import {
+	loadIndex,
+	saveIndex,
+	createEmptyIndex,
+	isEntryFresh,
+	toCachedSession,
+	fromCachedSession,
+	toCachedSubagent,
+	fromCachedSubagent,
+	IndexEntry,
+} from './indexCache.js';
+import { ToolEntry, attachMessageTools, slimMessage, getToolEntryText } from './tools.js';
+import { SessionFile, extractSessionFiles } from './files.js';
+import {
+	Subagent,
+	TaskCall,
+	SUBAGENT_TOOLS,
+	isSidechainTranscript,
+	getSubagentParentId,
+	getSubagentId,
+	getResultAgentId,
+	attachSubagents,
+} from './subagents.js';
+import { MessageChain, ForkInfo, linkForks } from './lineage.js';
+import type { Annotation } from './annotations.js';
+import { ResponseUsage, extractResponseUsage, extractModelUsage } from './usage.js';
+
+// One block of a message's content array. Only the fields used here are typed.
+export interface ContentBlock {
+	type: string; // text, thinking, tool_use, tool_result, image, ...
+	text?: string;
+	thinking?: string;
+	id?: string; // tool_use
+	name?: string; // tool_use
+	input?: Record<string, unknown>; // tool_use
+	tool_use_id?: string; // tool_result
+	content?: string | ContentBlock[]; // tool_result
+	is_error?: boolean; // tool_result
+}
 
 export interface SessionMessage {
 	type: string;
 	message?: {
 		role: string;
-		content: string | Array<{ type: string; text?: string; thinking?: string }>;
+		content: string | ContentBlock[];
+		model?: string; // Set on assistant messages
+		id?: string; // API message id, shared by the entries of one response
+		usage?: {
+			input_tokens?: number;
+			output_tokens?: number;
+			cache_creation_input_tokens?: number;
+			cache_read_input_tokens?: number;
+		};
 	};
 	uuid?: string;
+	parentUuid?: string | null;
 	timestamp?: string;
 	cwd?: string;
 	sessionId?: string;
+	gitBranch?: string;
+	isSidechain?: boolean; // Set on every entry of a subagent's transcript
+	agentId?: string;
+	toolUseResult?: unknown; // Claude Code's structured copy of a tool result
+	tools?: ToolEntry[]; // Parsed tool_use / tool_result blocks, set when the transcript is read
+}
+
+export type MessageRole = 'user' | 'assistant';
+
+// Where the text of one message or tool entry sits in a SearchText
+export interface SearchEntry {
+	role: MessageRole;
+	index: number; // Position in the detail view's conversation list
+	start: number; // [start, end) offsets into SearchText.text
+	end: number;
+	tool?: string; // Set for tool calls and results: the tool's name
+}
+
+// The searchable text of a transcript, extracted once at scan time: the text of
+// every message and tool entry joined by newlines, and where each one is
+export interface SearchText {
+	text: string;
+	entries: SearchEntry[];
 }
 
 export interface Session {
@@ -19,13 +91,62 @@ export interface Session {
 	directory: string;
 	filePath: string;
 	firstMessage: string;
-	messages: SessionMessage[];
+	search: SearchText; // Starts with the first message, then every message's text
+	messageCount: number; // User + assistant messages
 	timestamp: Date;
+	lastTimestamp: Date; // Latest message, so timestamp..lastTimestamp is when the session ran
 	cwd: string;
+	branches: string[]; // Git branches the session ran on, in order of first appearance
+	models: string[]; // Models that answered, in order of first use
+	responses: ResponseUsage[]; // Tokens of each API response, not counting subagents
+	files: SessionFile[]; // Files read, edited or written by tool calls, including its subagents'
+	taskCalls: TaskCall[]; // Calls that started subagents
+	subagents: Subagent[]; // Attached after scanning, in the order they started
+	chain: MessageChain; // For detecting forks and resumes
+	forkOf?: ForkInfo; // Set after scanning when the session continues another
+	forks: string[]; // Ids of the sessions that continue this one, set after scanning
+	annotation?: Annotation; // Star, tags and note, from the annotations file
 	distance?: number; // Distance from current directory
 }
 
-function extractTextContent(content: string | Array<{ type: string; text?: string; thinking?: string }>): string {
+export interface ScanOptions {
+	rebuildIndex?: boolean; // Ignore the cached index and re-parse every file
+	projectsRoot?: string; // Defaults to ~/.claude/projects
+	skipPatterns?: string[]; // Defaults to DEFAULT_SKIP_PATTERNS
+	concurrency?: number; // Files read at a time, defaults to SCAN_CONCURRENCY
+	onProgress?: (progress: ScanProgress) => void; // Called as files are scanned and once when done
+}
+
+export interface ScanProgress {
+	sessions: Session[]; // Found so far, linked and sorted like the final result
+	filesScanned: number;
+	filesTotal: number;
+	malformedLines: number; // Transcript lines that aren't valid JSON, skipped
+	unreadableFiles: number; // Transcripts that couldn't be read, skipped
+	done: boolean;
+}
+
+export const SCAN_CONCURRENCY = 8;
+
+// Progress is reported at most this often, since every report re-links and
+// re-sorts the sessions found so far
+const PROGRESS_INTERVAL_MS = 200;
+
+// Sessions whose first message matches one of these (case-insensitive, trimmed)
+// are hidden: warmups, claims, slash commands and hook configuration dumps
+export const DEFAULT_SKIP_PATTERNS = [
+	'^warmup$',
+	'^claim$',
+	'^<command-message>',
+	'^<command-name>',
+	'^\\{[\\s\\S]*"hooks"',
+];
+
+export function getDefaultProjectsRoot(): string {
+	return path.join(homedir(), '.claude', 'projects');
+}
+
+export function extractTextContent(content: string | ContentBlock[]): string {
 	if (typeof content === 'string') {
 		return content;
 	}
@@ -41,6 +162,45 @@ function extractTextContent(content: string | Array<{ type: string; text?: strin
 	return '';
 }
 
+// The displayable text of a message: its text blocks, without thinking or tool blocks
+export function getMessageText(msg: SessionMessage): string {
+	const content = msg.message?.content;
+	let textContent = '';
+
+	if (typeof content === 'string') {
+		textContent = content;
+	} else if (Array.isArray(content)) {
+		textContent = content
+			.map(item => item.text || '')
+			.filter(Boolean)
+			.join('\n\n');
+	}
+
+	return textContent.trim();
+}
+
+// Whether a message is shown in the detail view's conversation list: user and
+// assistant messages with actual text (thinking-only and tool-only messages are hidden)
+export function isConversationMessage(msg: SessionMessage): boolean {
+	if (msg.type !== 'user' && msg.type !== 'assistant') return false;
+
+	const content = msg.message?.content;
+	if (!content) return false;
+
+	if (typeof content === 'string') {
+		return content.trim().length > 0;
+	}
+
+	if (Array.isArray(content)) {
+		return content.some(item =>
+			(item.text && item.text.trim().length > 0)
+			// Skip thinking blocks - only count actual text content
+		);
+	}
+
+	return false;
+}
+
 function pathToDirectory(projectName: string): string {
 	// Keep the encoded project name but strip the leading dash
 	// We can't reliably decode because we don't know which dashes were originally
@@ -51,90 +211,277 @@ function pathToDirectory(projectName: string): string {
 	return projectName;
 }
 
-export async function scanSessions(currentDir: string): Promise<Session[]> {
-	const claudeDir = path.join(homedir(), '.claude', 'projects');
+export interface Transcript {
+	messages: SessionMessage[];
+	malformedLines: number;
+}
 
-	try {
-		await fs.access(claudeDir);
-	} catch {
-		return [];
+// Read a transcript line by line, so only the parsed messages are held in
+// memory rather than the file as well. Lines that aren't valid JSON (e.g. one
+// still being written) are counted and skipped. prepare reduces each message to
+// what the caller uses as soon as it is read, or drops it by returning null.
+export async function readTranscript(
+	filePath: string,
+	prepare: (msg: SessionMessage) => SessionMessage | null = msg => msg,
+): Promise<Transcript> {
+	const handle = await fs.open(filePath);
+	const lines = readline.createInterface({ input: handle.createReadStream({ encoding: 'utf-8' }), crlfDelay: Infinity });
+	const messages: SessionMessage[] = [];
+	const callNames = new Map<string, string>();
+	let malformedLines = 0;
+	for await (const line of lines) {
+		if (!line.trim()) continue;
+		let msg: SessionMessage | null;
+		try {
+			msg = JSON.parse(line);
+		} catch {
+			msg = null;
+		}
+		if (typeof msg !== 'object' || msg === null) {
+			malformedLines++;
+			continue;
+		}
+		attachMessageTools(msg, callNames);
+		const prepared = prepare(msg);
+		if (prepared) messages.push(prepared);
 	}
+	return { messages, malformedLines };
+}
 
-	const sessions: Session[] = [];
-	const projectDirs = await fs.readdir(claudeDir);
+// Searchable text of every message and tool entry, pointing at the detail
+// view's conversation list. A session's first message leads, as it says best
+// what the session is about.
+function extractSearchText(messages: SessionMessage[], firstMessage?: string): SearchText {
+	const parts: string[] = [];
+	const entries: SearchEntry[] = [];
+	let offset = 0;
+	const add = (role: MessageRole, index: number, text: string, tool?: string) => {
+		const entry: SearchEntry = { role, index, start: offset, end: offset + text.length };
+		if (tool) entry.tool = tool;
+		entries.push(entry);
+		parts.push(text);
+		offset = entry.end + 1; // Entries are joined with '\n'
+	};
 
-	for (const projectDir of projectDirs) {
-		const projectPath = path.join(claudeDir, projectDir);
-		const stat = await fs.stat(projectPath);
+	if (firstMessage) {
+		add('user', 0, firstMessage);
+	}
+	let conversationIndex = 0;
+	for (const msg of messages) {
+		if (msg.message?.content) {
+			const text = extractTextContent(msg.message.content);
+			if (text.trim()) {
+				// Hidden messages (e.g. thinking-only) point at the next visible message
+				add(msg.message.role === 'assistant' ? 'assistant' : 'user', conversationIndex, text);
+			}
+		}
+		for (const entry of msg.tools || []) {
+			const text = getToolEntryText(entry);
+			if (text.trim()) {
+				add(entry.kind === 'call' ? 'assistant' : 'user', conversationIndex, text, entry.name || 'tool');
+			}
+		}
+		if (isConversationMessage(msg)) {
+			conversationIndex++;
+		}
+	}
+	return { text: parts.join('\n'), entries };
+}
 
-		if (!stat.isDirectory()) continue;
+// Calls that started subagents, with the agent id from their result where recorded
+function extractTaskCalls(messages: SessionMessage[]): TaskCall[] {
+	const calls: TaskCall[] = [];
+	let conversationIndex = 0;
+	for (const msg of messages) {
+		for (const entry of msg.tools || []) {
+			if (entry.kind === 'call' && entry.id && SUBAGENT_TOOLS.includes(entry.name)) {
+				const prompt = typeof entry.input.prompt === 'string' ? entry.input.prompt : '';
+				calls.push({ id: entry.id, index: conversationIndex, prompt });
+			} else if (entry.kind === 'result') {
+				const call = calls.find(c => c.id === entry.toolUseId);
+				const agentId = getResultAgentId(msg);
+				if (call && agentId) call.agentId = agentId;
+			}
+		}
+		if (isConversationMessage(msg)) {
+			conversationIndex++;
+		}
+	}
+	return calls;
+}
+
+// Follow parentUuid links back from the last message, so branches left behind
+// by edits and retries are not part of the chain
+function extractMessageChain(messages: SessionMessage[]): MessageChain {
+	const byUuid = new Map<string, SessionMessage>();
+	for (const msg of messages) {
+		if (msg.uuid && !msg.isSidechain) byUuid.set(msg.uuid, msg);
+	}
+
+	const chain: MessageChain = { uuids: [], times: [] };
+	const last = [...messages].reverse().find(msg => msg.uuid && !msg.isSidechain && (msg.type === 'user' || msg.type === 'assistant'));
+	const seen = new Set<string>();
+	for (let msg = last; msg?.uuid && !seen.has(msg.uuid); msg = msg.parentUuid ? byUuid.get(msg.parentUuid) : undefined) {
+		seen.add(msg.uuid);
+		if (isConversationMessage(msg)) {
+			const time = msg.timestamp ? new Date(msg.timestamp).getTime() : 0;
+			chain.uuids.push(msg.uuid);
+			chain.times.push(isNaN(time) ? 0 : time);
+		}
+	}
+	chain.uuids.reverse();
+	chain.times.reverse();
+	return chain;
+}
 
-		const files = await fs.readdir(projectPath);
-		const sessionFiles = files.filter(f => f.endsWith('.jsonl'));
+// Why a session transcript is hidden from the list, or null if it is listed
+export function getSkipReason(messages: SessionMessage[], skipPatterns: RegExp[]): string | null {
+	const firstUserMessage = messages.find(
+		msg => msg.type === 'user' && msg.message?.content
+	);
+	if (!firstUserMessage?.message?.content) return 'no user message';
 
-		for (const sessionFile of sessionFiles) {
-			const filePath = path.join(projectPath, sessionFile);
-			const sessionId = sessionFile.replace('.jsonl', '');
+	// Skip sessions with system/command messages or just "Warmup"
+	const firstMessage = extractTextContent(firstUserMessage.message.content);
+	if (!firstMessage || firstMessage.trim().length === 0) return 'empty first message';
+	const trimmedMessage = firstMessage.trim();
+	const pattern = skipPatterns.find(pattern => pattern.test(trimmedMessage));
+	if (pattern) return `first message matches ${pattern.source}`;
+	if (firstMessage.length < 3) return 'first message too short';
+	return null;
+}
+
+// Parse a session transcript into a Session, or null if it should be hidden
+function parseSessionFile(filePath: string, messages: SessionMessage[], projectDir: string, skipPatterns: RegExp[]): Session | null {
+	if (getSkipReason(messages, skipPatterns)) return null;
+
+	const sessionId = path.basename(filePath, '.jsonl');
+	const firstUserMessage = messages.find(
+		msg => msg.type === 'user' && msg.message?.content
+	)!;
+	const encodedDirectory = pathToDirectory(projectDir);
+	const firstMessage = extractTextContent(firstUserMessage.message!.content);
+
+	let timestamp = firstUserMessage.timestamp
+		? new Date(firstUserMessage.timestamp)
+		: new Date(0);
+	if (isNaN(timestamp.getTime())) timestamp = new Date(0);
+	// Use the actual cwd from the session, fall back to encoded directory
+	const cwd = firstUserMessage.cwd || encodedDirectory;
+	// Use cwd for display purposes too since it's the real path
+	const directory = cwd;
+
+	const branches: string[] = [];
+	const models: string[] = [];
+	let lastTimestamp = timestamp;
+	for (const msg of messages) {
+		if (msg.gitBranch && !branches.includes(msg.gitBranch)) {
+			branches.push(msg.gitBranch);
+		}
+		// Claude Code writes some messages itself (e.g. API errors) with the model "<synthetic>"
+		const model = msg.type === 'assistant' ? msg.message?.model : undefined;
+		if (model && model !== '<synthetic>' && !models.includes(model)) {
+			models.push(model);
+		}
+		const messageTime = msg.timestamp ? new Date(msg.timestamp) : null;
+		if (messageTime && messageTime.getTime() > lastTimestamp.getTime()) {
+			lastTimestamp = messageTime;
+		}
+	}
 
+	return {
+		id: sessionId,
+		directory,
+		filePath,
+		firstMessage,
+		search: extractSearchText(messages, firstMessage),
+		messageCount: messages.filter(m => m.type === 'user' || m.type === 'assistant').length,
+		timestamp,
+		lastTimestamp,
+		cwd,
+		branches,
+		models,
+		responses: extractResponseUsage(messages),
+		files: extractSessionFiles(messages, cwd),
+		taskCalls: extractTaskCalls(messages),
+		subagents: [],
+		chain: extractMessageChain(messages),
+		forks: [],
+	};
+}
+
+// Parse a subagent transcript, or null if it has no prompt or no known parent
+function parseSubagentFile(filePath: string, messages: SessionMessage[]): Subagent | null {
+	const parentId = getSubagentParentId(filePath, messages);
+	const firstUserMessage = messages.find(msg => msg.type === 'user' && msg.message?.content);
+	if (!parentId || !firstUserMessage?.message?.content) return null;
+
+	const timestamp = new Date(firstUserMessage.timestamp || 0);
+	return {
+		id: getSubagentId(filePath, messages),
+		parentId,
+		filePath,
+		prompt: extractTextContent(firstUserMessage.message.content),
+		search: extractSearchText(messages),
+		messageCount: messages.filter(m => m.type === 'user' || m.type === 'assistant').length,
+		timestamp: isNaN(timestamp.getTime()) ? new Date(0) : timestamp,
+		files: extractSessionFiles(messages, firstUserMessage.cwd || path.dirname(filePath)),
+		usage: extractModelUsage(messages),
+	};
+}
+
+// Session transcripts in a project directory, plus the subagent transcripts
+// newer Claude Code versions keep in <session id>/subagents/
+async function listTranscriptFiles(projectPath: string): Promise<string[]> {
+	const entries = await fs.readdir(projectPath, { withFileTypes: true });
+	const files: string[] = [];
+	for (const entry of entries) {
+		if (entry.isFile() && entry.name.endsWith('.jsonl')) {
+			files.push(path.join(projectPath, entry.name));
+		} else if (entry.isDirectory()) {
+			const subagentDir = path.join(projectPath, entry.name, 'subagents');
 			try {
-				const content = await fs.readFile(filePath, 'utf-8');
-				const lines = content.trim().split('\n');
-				const messages: SessionMessage[] = lines
-					.map(line => {
-						try {
-							return JSON.parse(line);
-						} catch {
-							return null;
-						}
-					})
-					.filter((msg): msg is SessionMessage => msg !== null);
-
-				// Find the first user message
-				const firstUserMessage = messages.find(
-					msg => msg.type === 'user' && msg.message?.content
-				);
-
-				if (!firstUserMessage?.message?.content) continue;
-
-				const encodedDirectory = pathToDirectory(projectDir);
-				const firstMessage = extractTextContent(firstUserMessage.message.content);
-
-				// Skip sessions with system/command messages or just "Warmup"
-				if (!firstMessage || firstMessage.trim().length === 0) continue;
-				const lowerMessage = firstMessage.toLowerCase().trim();
-				if (lowerMessage === 'warmup') continue;
-				if (lowerMessage === 'claim') continue;
-				if (firstMessage.startsWith('<command-message>')) continue;
-				if (firstMessage.startsWith('<command-name>')) continue;
-				if (firstMessage.startsWith('{') && firstMessage.includes('"hooks"')) continue;
-				if (firstMessage.length < 3) continue; // Skip very short messages
-
-				const timestamp = firstUserMessage.timestamp
-					? new Date(firstUserMessage.timestamp)
-					: new Date(0);
-				// Use the actual cwd from the session, fall back to encoded directory
-				const cwd = firstUserMessage.cwd || encodedDirectory;
-				// Use cwd for display purposes too since it's the real path
-				const directory = cwd;
-
-				sessions.push({
-					id: sessionId,
-					directory,
-					filePath,
-					firstMessage,
-					messages,
-					timestamp,
-					cwd,
-				});
-			} catch (error) {
-				// Skip sessions that can't be read
-				console.error(`Error reading session ${sessionFile}:`, error);
+				const nested = await fs.readdir(subagentDir);
+				files.push(...nested.filter(f => f.endsWith('.jsonl')).map(f => path.join(subagentDir, f)));
+			} catch {
+				// Not a session directory
 			}
 		}
 	}
+	return files;
+}
 
-	// Calculate distance from current directory and sort
-	const sortedSessions = sessions.map(session => {
+// Every transcript under the projects root, with the project directory it is in
+async function listProjectTranscripts(claudeDir: string): Promise<Array<{ filePath: string; projectDir: string }>> {
+	const transcripts: Array<{ filePath: string; projectDir: string }> = [];
+	for (const projectDir of await fs.readdir(claudeDir)) {
+		const projectPath = path.join(claudeDir, projectDir);
+		const stat = await fs.stat(projectPath);
+
+		if (!stat.isDirectory()) continue;
+
+		for (const filePath of await listTranscriptFiles(projectPath)) {
+			transcripts.push({ filePath, projectDir });
+		}
+	}
+	return transcripts;
+}
+
+// Run worker on every item, at most limit at a time
+async function forEachConcurrently<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+	let next = 0;
+	const run = async () => {
+		while (next < items.length) {
+			const index = next++;
+			await worker(items[index], index);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+}
+
+// Attach subagents, link forks and sort by distance from the current directory
+function finishSessions(sessions: Session[], subagents: Subagent[], currentDir: string): Session[] {
+	return linkForks(attachSubagents(sessions, subagents)).map(session => {
 		const distance = calculatePathDistance(currentDir, session.directory);
 		return { ...session, distance };
 	}).sort((a, b) => {
@@ -144,8 +491,167 @@ export async function scanSessions(currentDir: string): Promise<Session[]> {
 		}
 		return b.timestamp.getTime() - a.timestamp.getTime();
 	});
+}
+
+// What a transcript turned out to be
+interface ScannedFile {
+	session: Session | null;
+	subagent: Subagent | null;
+	malformedLines: number;
+}
+
+export async function scanSessions(currentDir: string, options: ScanOptions = {}): Promise<Session[]> {
+	const claudeDir = options.projectsRoot ?? getDefaultProjectsRoot();
+	const skipPatterns = options.skipPatterns ?? DEFAULT_SKIP_PATTERNS;
+	const compiledSkipPatterns = skipPatterns.map(pattern => new RegExp(pattern, 'i'));
+	const progress: ScanProgress = { sessions: [], filesScanned: 0, filesTotal: 0, malformedLines: 0, unreadableFiles: 0, done: false };
+
+	try {
+		await fs.access(claudeDir);
+	} catch {
+		options.onProgress?.({ ...progress, done: true });
+		return [];
+	}
+
+	let index = options.rebuildIndex ? createEmptyIndex() : await loadIndex();
+	// Skipped sessions are cached, so different skip patterns invalidate the whole index
+	const patternsChanged = !sameStrings(index.skipPatterns, skipPatterns);
+	if (patternsChanged) {
+		index = createEmptyIndex();
+	}
+	// Only files seen in this scan are carried over, which drops deleted sessions
+	const nextEntries: Record<string, IndexEntry> = {};
+	let indexChanged = !!options.rebuildIndex || patternsChanged;
+
+	// List every transcript first, so progress can be reported against the total
+	const transcripts = await listProjectTranscripts(claudeDir);
+	progress.filesTotal = transcripts.length;
+
+	const scanFile = async (filePath: string, projectDir: string): Promise<ScannedFile> => {
+		const fileStat = await fs.stat(filePath);
+		const cached = index.entries[filePath];
+
+		if (isEntryFresh(cached, fileStat.size, fileStat.mtimeMs)) {
+			nextEntries[filePath] = cached;
+			return {
+				session: cached.session ? fromCachedSession(cached.session) : null,
+				subagent: cached.subagent ? fromCachedSubagent(cached.subagent) : null,
+				malformedLines: cached.malformedLines ?? 0,
+			};
+		}
+
+		const { messages, malformedLines } = await readTranscript(filePath, slimMessage);
+		const isSubagent = isSidechainTranscript(messages);
+		const subagent = isSubagent ? parseSubagentFile(filePath, messages) : null;
+		const session = isSubagent ? null : parseSessionFile(filePath, messages, projectDir, compiledSkipPatterns);
+		nextEntries[filePath] = {
+			size: fileStat.size,
+			mtimeMs: fileStat.mtimeMs,
+			session: session ? toCachedSession(session) : null,
+			...(subagent && { subagent: toCachedSubagent(subagent) }),
+			...(malformedLines > 0 && { malformedLines }),
+		};
+		indexChanged = true;
+		return { session, subagent, malformedLines };
+	};
+
+	// Results are kept in listing order, so the outcome doesn't depend on which
+	// reads finish first
+	const scanned: Array<ScannedFile | undefined> = new Array(transcripts.length);
+	const collect = () => {
+		const sessions: Session[] = [];
+		const subagents: Subagent[] = [];
+		for (const file of scanned) {
+			if (file?.session) sessions.push(file.session);
+			if (file?.subagent) subagents.push(file.subagent);
+		}
+		return finishSessions(sessions, subagents, currentDir);
+	};
+
+	let lastReport = Date.now();
+	await forEachConcurrently(transcripts, options.concurrency ?? SCAN_CONCURRENCY, async ({ filePath, projectDir }, i) => {
+		try {
+			scanned[i] = await scanFile(filePath, projectDir);
+			progress.malformedLines += scanned[i]!.malformedLines;
+		} catch {
+			// Skip sessions that can't be read; they are counted rather than
+			// printed, which would garble the interface
+			progress.unreadableFiles++;
+		}
+		progress.filesScanned++;
+
+		if (options.onProgress && Date.now() - lastReport >= PROGRESS_INTERVAL_MS) {
+			lastReport = Date.now();
+			options.onProgress({ ...progress, sessions: collect() });
+		}
+	});
 
-	return sortedSessions;
+	if (Object.keys(nextEntries).length !== Object.keys(index.entries).length) {
+		indexChanged = true;
+	}
+
+	if (indexChanged) {
+		try {
+			await saveIndex({ ...index, skipPatterns, entries: nextEntries });
+		} catch {
+			// The index is only an optimization - a failed write just means a slower next start
+		}
+	}
+
+	const sessions = collect();
+	options.onProgress?.({ ...progress, sessions, done: true });
+	return sessions;
+}
+
+// A session transcript the scan hides: a warmup, a slash command, one with no
+// user message, ...
+export interface HiddenTranscript {
+	filePath: string;
+	reason: string;
+	size: number;
+	lastModified: Date;
+	messageCount: number; // User + assistant messages
+}
+
+// Session transcripts hidden by the skip patterns and the other checks of
+// scanSessions. The index tells which transcripts were hidden when last
+// scanned; only those (and files it doesn't know) are read again for the reason.
+export async function findHiddenTranscripts(options: ScanOptions = {}): Promise<HiddenTranscript[]> {
+	const claudeDir = options.projectsRoot ?? getDefaultProjectsRoot();
+	const skipPatterns = (options.skipPatterns ?? DEFAULT_SKIP_PATTERNS).map(pattern => new RegExp(pattern, 'i'));
+	try {
+		await fs.access(claudeDir);
+	} catch {
+		return [];
+	}
+
+	const index = await loadIndex();
+	const hidden: Array<HiddenTranscript | undefined> = [];
+	// Subagent transcripts belong to their session, so they are never hidden on their own
+	const transcripts = (await listProjectTranscripts(claudeDir))
+		.filter(({ filePath }) => path.basename(path.dirname(filePath)) !== 'subagents');
+	await forEachConcurrently(transcripts, options.concurrency ?? SCAN_CONCURRENCY, async ({ filePath }, i) => {
+		try {
+			const stat = await fs.stat(filePath);
+			const cached = index.entries[filePath];
+			if (isEntryFresh(cached, stat.size, stat.mtimeMs) && (cached.session || cached.subagent)) return;
+
+			const { messages } = await readTranscript(filePath, slimMessage);
+			if (isSidechainTranscript(messages)) return;
+			const reason = getSkipReason(messages, skipPatterns);
+			if (reason) {
+				const messageCount = messages.filter(m => m.type === 'user' || m.type === 'assistant').length;
+				hidden[i] = { filePath, reason, size: stat.size, lastModified: stat.mtime, messageCount };
+			}
+		} catch {
+			// Unreadable transcripts are left alone
+		}
+	});
+	return hidden.filter((transcript): transcript is HiddenTranscript => !!transcript);
+}
+
+function sameStrings(a: string[] | undefined, b: string[]): boolean {
+	return !!a && a.length === b.length && a.every((value, i) => value === b[i]);
 }
 
 function calculatePathDistance(from: string, to: string): number {
@@ -167,14 +673,8 @@ function calculatePathDistance(from: string, to: string): number {
 	return distance;
 }
 
-export function getAllText(session: Session): string {
-	const texts: string[] = [session.firstMessage];
-
-	for (const msg of session.messages) {
-		if (msg.message?.content) {
-			texts.push(extractTextContent(msg.message.content));
-		}
-	}
-
-	return texts.join('\n');
+// Sessions whose id matches exactly, or else starts with the given prefix
+export function findSessionsById(sessions: Session[], id: string): Session[] {
+	const exact = sessions.filter(session => session.id === id);
+	return exact.length > 0 ? exact : sessions.filter(session => session.id.startsWith(id));
 }
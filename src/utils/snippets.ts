@@ -0,0 +1,110 @@
+import { SearchMatch, findMatches } from './ranking.js';
+
+export interface TextSegment {
+	text: string;
+	highlighted: boolean;
+}
+
+// Split text[start, end) into plain and highlighted segments
+export function sliceSegments(text: string, ranges: Array<[number, number]>, start: number, end: number): TextSegment[] {
+	const segments: TextSegment[] = [];
+	let position = start;
+
+	const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+	for (const [rangeStart, rangeEnd] of sorted) {
+		const from = Math.max(rangeStart, position);
+		const to = Math.min(rangeEnd, end);
+		if (to <= from) continue;
+		if (from > position) {
+			segments.push({ text: text.slice(position, from), highlighted: false });
+		}
+		segments.push({ text: text.slice(from, to), highlighted: true });
+		position = to;
+	}
+
+	if (position < end) {
+		segments.push({ text: text.slice(position, end), highlighted: false });
+	}
+	return segments;
+}
+
+// Segments for the whole text with every match of the pattern highlighted
+export function highlightMatches(text: string, pattern: RegExp | null): TextSegment[] {
+	if (!pattern) return [{ text, highlighted: false }];
+	return sliceSegments(text, findMatches(pattern, text).ranges, 0, text.length);
+}
+
+export function segmentsLength(segments: TextSegment[]): number {
+	return segments.reduce((length, segment) => length + segment.text.length, 0);
+}
+
+// Cut segments down to at most width characters, marking the cut with an ellipsis
+export function truncateSegments(segments: TextSegment[], width: number): TextSegment[] {
+	if (segmentsLength(segments) <= width) return segments;
+
+	const result: TextSegment[] = [];
+	let remaining = Math.max(0, width - 1);
+	for (const segment of segments) {
+		if (remaining <= 0) break;
+		result.push({ ...segment, text: segment.text.slice(0, remaining) });
+		remaining -= segment.text.length;
+	}
+	result.push({ text: '…', highlighted: false });
+	return result;
+}
+
+export function padSegments(segments: TextSegment[], width: number): TextSegment[] {
+	const length = segmentsLength(segments);
+	return length < width
+		? [...segments, { text: ' '.repeat(width - length), highlighted: false }]
+		: segments;
+}
+
+// Segments for a window of text that starts a little before its first match
+function windowSegments(text: string, ranges: Array<[number, number]>, width: number, collapseWhitespace: boolean): TextSegment[] {
+	const anchor = ranges.length > 0 ? Math.min(...ranges.map(r => r[0])) : 0;
+	const lead = Math.min(20, Math.floor(width / 4));
+	const start = anchor > lead ? anchor - lead : 0;
+	// Collapsing whitespace shrinks the text, so take more than we need
+	const end = Math.min(text.length, start + width * 3);
+
+	let segments = sliceSegments(text, ranges, start, end);
+	segments = segments.map(segment => ({
+		...segment,
+		text: collapseWhitespace ? segment.text.replace(/\s+/g, ' ') : segment.text.replace(/\t/g, '  '),
+	}));
+	if (start > 0) {
+		segments.unshift({ text: '…', highlighted: false });
+	}
+	if (collapseWhitespace && segments.length > 0 && !segments[0].highlighted) {
+		segments[0] = { ...segments[0], text: segments[0].text.trimStart() };
+	}
+	return truncateSegments(segments, width);
+}
+
+// A single-line snippet around the match, at most width characters
+export function buildSnippet(match: SearchMatch, width: number): TextSegment[] {
+	return windowSegments(match.text, match.ranges, width, true);
+}
+
+// A few lines of the matching message centred on the first match
+export function buildContextLines(match: SearchMatch, lineCount: number, width: number): TextSegment[][] {
+	const lines: Array<{ start: number; end: number }> = [];
+	let offset = 0;
+	for (const line of match.text.split('\n')) {
+		lines.push({ start: offset, end: offset + line.length });
+		offset += line.length + 1;
+	}
+
+	const anchor = match.ranges.length > 0 ? Math.min(...match.ranges.map(r => r[0])) : 0;
+	const anchorLine = Math.max(0, lines.findIndex(line => anchor >= line.start && anchor <= line.end));
+	const first = Math.max(0, Math.min(anchorLine - Math.floor((lineCount - 1) / 2), lines.length - lineCount));
+
+	return lines.slice(first, first + lineCount).map(line => {
+		const lineText = match.text.slice(line.start, line.end);
+		const lineRanges = match.ranges
+			.filter(([start, end]) => end > line.start && start < line.end)
+			.map(([start, end]): [number, number] => [Math.max(start, line.start) - line.start, Math.min(end, line.end) - line.start]);
+		return windowSegments(lineText, lineRanges, width, false);
+	});
+}
@@ -0,0 +1,181 @@
+import type { Session } from './sessionScanner.js';
+
+// Usage statistics over the scanned sessions, for the stats view and
+// `claude-sessions stats`. Days, weeks and hours are in local time.
+
+export const STATS_DAYS = 30;
+export const STATS_WEEKS = 12;
+
+export interface ProjectStats {
+	directory: string;
+	sessions: number;
+	messages: number;
+	lastActive: string; // ISO timestamp
+}
+
+export interface PeriodStats {
+	start: string; // YYYY-MM-DD; weeks start on Monday
+	sessions: number; // Sessions started in the period
+	messages: number; // Messages sent in the period, whenever their session started
+}
+
+export interface ModelStats {
+	model: string;
+	sessions: number;
+}
+
+export interface SessionStats {
+	sessions: number;
+	messages: number;
+	averageMessages: number;
+	firstActivity: string | null; // ISO timestamps
+	lastActivity: string | null;
+	projects: ProjectStats[]; // Most sessions first
+	days: PeriodStats[]; // The last STATS_DAYS days, oldest first
+	weeks: PeriodStats[]; // The last STATS_WEEKS weeks, oldest first
+	models: ModelStats[]; // Most sessions first
+	hours: number[]; // Messages per hour of the day, 0-23
+}
+
+function toDateKey(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function startOfWeek(date: Date): Date {
+	const day = startOfDay(date);
+	day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+	return day;
+}
+
+// Empty periods ending with the one containing now, keyed by their start date
+function buildPeriods(count: number, now: Date, start: (date: Date) => Date, stepDays: number): Map<string, PeriodStats> {
+	const periods = new Map<string, PeriodStats>();
+	const first = start(now);
+	first.setDate(first.getDate() - (count - 1) * stepDays);
+	for (let i = 0; i < count; i++) {
+		const periodStart = new Date(first.getFullYear(), first.getMonth(), first.getDate() + i * stepDays);
+		const key = toDateKey(periodStart);
+		periods.set(key, { start: key, sessions: 0, messages: 0 });
+	}
+	return periods;
+}
+
+// Times of a session's messages. The message chain has one per conversation
+// message; sessions indexed without times fall back to their start.
+function getMessageTimes(session: Session): number[] {
+	const times = session.chain.times.filter(time => time > 0);
+	return times.length > 0 ? times : [session.timestamp.getTime()];
+}
+
+function countBy<T>(items: T[], key: (item: T) => string[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const item of items) {
+		for (const value of key(item)) {
+			counts.set(value, (counts.get(value) ?? 0) + 1);
+		}
+	}
+	return counts;
+}
+
+export function computeStats(sessions: Session[], now: Date = new Date()): SessionStats {
+	const days = buildPeriods(STATS_DAYS, now, startOfDay, 1);
+	const weeks = buildPeriods(STATS_WEEKS, now, startOfWeek, 7);
+	const hours: number[] = new Array(24).fill(0);
+	const projects = new Map<string, ProjectStats>();
+	let messages = 0;
+	let firstActivity: Date | null = null;
+	let lastActivity: Date | null = null;
+
+	for (const session of sessions) {
+		messages += session.messageCount;
+		if (!firstActivity || session.timestamp < firstActivity) firstActivity = session.timestamp;
+		if (!lastActivity || session.lastTimestamp > lastActivity) lastActivity = session.lastTimestamp;
+
+		const project = projects.get(session.directory) ?? { directory: session.directory, sessions: 0, messages: 0, lastActive: '' };
+		project.sessions++;
+		project.messages += session.messageCount;
+		const lastActive = session.lastTimestamp.toISOString();
+		if (lastActive > project.lastActive) project.lastActive = lastActive;
+		projects.set(session.directory, project);
+
+		const startDay = days.get(toDateKey(session.timestamp));
+		if (startDay) startDay.sessions++;
+		const startWeek = weeks.get(toDateKey(startOfWeek(session.timestamp)));
+		if (startWeek) startWeek.sessions++;
+
+		for (const time of getMessageTimes(session)) {
+			const date = new Date(time);
+			hours[date.getHours()]++;
+			const day = days.get(toDateKey(date));
+			if (day) day.messages++;
+			const week = weeks.get(toDateKey(startOfWeek(date)));
+			if (week) week.messages++;
+		}
+	}
+
+	const models = [...countBy(sessions, session => session.models)]
+		.map(([model, count]) => ({ model, sessions: count }))
+		.sort((a, b) => b.sessions - a.sessions || a.model.localeCompare(b.model));
+
+	return {
+		sessions: sessions.length,
+		messages,
+		averageMessages: sessions.length > 0 ? messages / sessions.length : 0,
+		firstActivity: firstActivity?.toISOString() ?? null,
+		lastActivity: lastActivity?.toISOString() ?? null,
+		projects: [...projects.values()].sort((a, b) => b.sessions - a.sessions || b.lastActive.localeCompare(a.lastActive)),
+		days: [...days.values()],
+		weeks: [...weeks.values()],
+		models,
+		hours,
+	};
+}
+
+const SPARK_LEVELS = '▁▂▃▄▅▆▇█';
+
+// One block character per value, scaled to the largest; zero is a blank
+export function sparkline(values: number[]): string {
+	const max = Math.max(0, ...values);
+	return values.map(value => {
+		if (value <= 0 || max === 0) return ' ';
+		return SPARK_LEVELS[Math.min(SPARK_LEVELS.length - 1, Math.floor((value / max) * (SPARK_LEVELS.length - 1)))];
+	}).join('');
+}
+
+// Horizontal bar for a value out of max, at most width characters
+export function bar(value: number, max: number, width: number): string {
+	if (max <= 0 || value <= 0) return '';
+	return '█'.repeat(Math.max(1, Math.round((value / max) * width)));
+}
+
+// Hours of the day with the most messages, busiest first
+export function getBusiestHours(hours: number[], count: number): number[] {
+	return hours
+		.map((messages, hour) => ({ hour, messages }))
+		.filter(entry => entry.messages > 0)
+		.sort((a, b) => b.messages - a.messages || a.hour - b.hour)
+		.slice(0, count)
+		.map(entry => entry.hour);
+}
+
+// Columns of block characters, height rows tall, scaled to the largest value.
+// Rows are returned top first; non-zero values always show at least a sliver.
+export function histogram(values: number[], height: number, columnWidth: number = 1): string[] {
+	const max = Math.max(0, ...values);
+	const rows: string[] = [];
+	for (let row = height - 1; row >= 0; row--) {
+		rows.push(values.map(value => {
+			const eighths = max > 0 ? Math.round((value / max) * height * 8) : 0;
+			const level = Math.max(0, Math.min(8, eighths - row * 8));
+			const char = level > 0 ? SPARK_LEVELS[level - 1] : row === 0 && value > 0 ? SPARK_LEVELS[0] : ' ';
+			return char.repeat(columnWidth);
+		}).join(''));
+	}
+	return rows;
+}
@@ -0,0 +1,97 @@
+import path from 'path';
+import type { Session, SessionMessage, SearchText } from './sessionScanner.js';
+import { SessionFile, mergeSessionFiles } from './files.js';
+import type { ModelUsage } from './usage.js';
+
+// Task subagents write their conversation to a transcript of their own
+// (agent-<id>.jsonl next to the parent's, or in <parent id>/subagents/ in newer
+// Claude Code versions). Every entry is marked isSidechain and carries the
+// parent's sessionId.
+
+// Tools that start a subagent
+export const SUBAGENT_TOOLS = ['Task', 'Agent'];
+
+export interface Subagent {
+	id: string; // agentId
+	parentId: string; // Id of the session that started it
+	filePath: string;
+	prompt: string; // First message: the task it was given
+	search: SearchText; // Indexes are positions in the subagent's own conversation
+	messageCount: number;
+	timestamp: Date;
+	files: SessionFile[];
+	usage: ModelUsage;
+	toolUseId?: string; // The parent's Task call, set when attached
+	parentIndex?: number; // Position of that call in the parent's conversation list
+}
+
+// A call in the parent session that started a subagent
+export interface TaskCall {
+	id: string; // tool_use id
+	index: number; // Position in the detail view's conversation list
+	prompt: string;
+	agentId?: string; // Recorded with the call's result by newer Claude Code versions
+}
+
+export function isSidechainTranscript(messages: SessionMessage[]): boolean {
+	const conversation = messages.filter(msg => msg.type === 'user' || msg.type === 'assistant');
+	return conversation.length > 0 && conversation.every(msg => msg.isSidechain);
+}
+
+// The parent session id: the directory for <parent id>/subagents/agent-<id>.jsonl,
+// otherwise the sessionId the entries were written with
+export function getSubagentParentId(filePath: string, messages: SessionMessage[]): string | null {
+	const dir = path.dirname(filePath);
+	if (path.basename(dir) === 'subagents') {
+		return path.basename(path.dirname(dir));
+	}
+	return messages.find(msg => msg.sessionId)?.sessionId ?? null;
+}
+
+export function getSubagentId(filePath: string, messages: SessionMessage[]): string {
+	return messages.find(msg => msg.agentId)?.agentId ?? path.basename(filePath, '.jsonl').replace(/^agent-/, '');
+}
+
+// The agent id Claude Code stores in a Task result's toolUseResult, if any
+export function getResultAgentId(msg: SessionMessage): string | undefined {
+	const result = msg.toolUseResult;
+	if (typeof result === 'object' && result !== null && 'agentId' in result && typeof result.agentId === 'string') {
+		return result.agentId;
+	}
+	return undefined;
+}
+
+// Hang subagents off their parent sessions, matching each to the Task call that
+// started it by agent id or else by prompt. Subagents of sessions that aren't
+// listed (e.g. hidden by a skip pattern) are dropped along with them.
+export function attachSubagents(sessions: Session[], subagents: Subagent[]): Session[] {
+	const byParent = new Map<string, Subagent[]>();
+	for (const subagent of subagents) {
+		const siblings = byParent.get(subagent.parentId) || [];
+		siblings.push(subagent);
+		byParent.set(subagent.parentId, siblings);
+	}
+
+	return sessions.map(session => {
+		const children = byParent.get(session.id);
+		if (!children) return session;
+
+		const unclaimed = [...session.taskCalls];
+		const attached = children
+			.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+			.map(subagent => {
+				let callIndex = unclaimed.findIndex(call => call.agentId === subagent.id);
+				if (callIndex < 0) {
+					callIndex = unclaimed.findIndex(call => !call.agentId && call.prompt.trim() === subagent.prompt.trim());
+				}
+				const [call] = callIndex >= 0 ? unclaimed.splice(callIndex, 1) : [];
+				return { ...subagent, toolUseId: call?.id, parentIndex: call?.index };
+			});
+
+		return {
+			...session,
+			subagents: attached,
+			files: attached.reduce((files, subagent) => mergeSessionFiles(files, subagent.files), session.files),
+		};
+	});
+}
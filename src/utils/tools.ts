@@ -0,0 +1,160 @@
+import type { ContentBlock, SessionMessage } from './sessionScanner.js';
+
+// Typed view of the tool_use and tool_result blocks of a message
+
+export interface ToolCallEntry {
+	kind: 'call';
+	id?: string;
+	name: string;
+	input: Record<string, unknown>;
+	summary: string; // Key arguments, e.g. the command for Bash or the path for Edit
+}
+
+export interface ToolResultEntry {
+	kind: 'result';
+	toolUseId?: string;
+	name?: string; // Name of the call this answers, when it was found
+	text: string;
+	isError: boolean;
+}
+
+export type ToolEntry = ToolCallEntry | ToolResultEntry;
+
+// Only this much of a result is indexed - results are often whole files
+const MAX_INDEXED_RESULT_LENGTH = 1000;
+
+// Longer string arguments (file contents, patches) are dropped when scanning;
+// paths and subagent prompts stay well below this
+const MAX_SCANNED_INPUT_LENGTH = 10000;
+
+// Input fields that identify what a call did, per tool
+const SUMMARY_FIELDS: Record<string, string[]> = {
+	Bash: ['command'],
+	Read: ['file_path'],
+	Write: ['file_path'],
+	Edit: ['file_path'],
+	MultiEdit: ['file_path'],
+	NotebookEdit: ['notebook_path'],
+	NotebookRead: ['notebook_path'],
+	Glob: ['pattern', 'path'],
+	Grep: ['pattern', 'path'],
+	LS: ['path'],
+	WebFetch: ['url'],
+	WebSearch: ['query'],
+	Task: ['description'],
+	Skill: ['command'],
+	SlashCommand: ['command'],
+};
+
+export function summarizeToolInput(name: string, input: Record<string, unknown>): string {
+	const fields = SUMMARY_FIELDS[name];
+	if (fields) {
+		return fields
+			.map(field => input[field])
+			.filter((value): value is string => typeof value === 'string' && value.length > 0)
+			.join(' ');
+	}
+	if (name === 'TodoWrite' && Array.isArray(input.todos)) {
+		return `${input.todos.length} todo${input.todos.length !== 1 ? 's' : ''}`;
+	}
+	// Unknown tools (e.g. MCP servers): the first short string argument
+	const first = Object.values(input).find((value): value is string => typeof value === 'string' && value.length <= 200);
+	return first ?? '';
+}
+
+function getResultText(content: string | ContentBlock[] | undefined): string {
+	if (!content) return '';
+	if (typeof content === 'string') return content.trim();
+	return content
+		.map(block => (block.type === 'text' ? block.text || '' : block.type === 'image' ? '[image]' : ''))
+		.filter(Boolean)
+		.join('\n')
+		.trim();
+}
+
+export function parseToolEntries(content: string | ContentBlock[]): ToolEntry[] {
+	if (typeof content === 'string') return [];
+
+	const entries: ToolEntry[] = [];
+	for (const block of content) {
+		if (block.type === 'tool_use') {
+			const name = block.name || 'unknown';
+			const input = block.input || {};
+			entries.push({ kind: 'call', id: block.id, name, input, summary: summarizeToolInput(name, input) });
+		} else if (block.type === 'tool_result') {
+			entries.push({
+				kind: 'result',
+				toolUseId: block.tool_use_id,
+				text: getResultText(block.content),
+				isError: !!block.is_error,
+			});
+		}
+	}
+	return entries;
+}
+
+// Parse tool entries onto a message and name results after their calls.
+// callNames carries the names of earlier calls from message to message.
+export function attachMessageTools(msg: SessionMessage, callNames: Map<string, string>): void {
+	const content = msg.message?.content;
+	if (!content) return;
+	const tools = parseToolEntries(content);
+	if (tools.length === 0) return;
+
+	for (const entry of tools) {
+		if (entry.kind === 'call' && entry.id) {
+			callNames.set(entry.id, entry.name);
+		} else if (entry.kind === 'result' && entry.toolUseId) {
+			entry.name = callNames.get(entry.toolUseId);
+		}
+	}
+	msg.tools = tools;
+}
+
+// Parse tool entries onto each message of a transcript
+export function attachToolEntries(messages: SessionMessage[]): void {
+	const callNames = new Map<string, string>();
+	for (const msg of messages) {
+		attachMessageTools(msg, callNames);
+	}
+}
+
+// Drop what scanning doesn't use from a message whose tools are attached: tool
+// and image blocks (kept as tool entries), long tool arguments such as written
+// file contents, result text past what is indexed, and structured results
+// other than a subagent's agent id. Transcripts are mostly tool output, so this
+// keeps a scan's memory close to the size of the index.
+export function slimMessage(msg: SessionMessage): SessionMessage {
+	const content = msg.message?.content;
+	const slim: SessionMessage = { ...msg, toolUseResult: undefined };
+	if (msg.message && Array.isArray(content)) {
+		slim.message = { ...msg.message, content: content.filter(block => block.type === 'text' || block.type === 'thinking') };
+	}
+	const result = msg.toolUseResult;
+	if (typeof result === 'object' && result !== null && 'agentId' in result) {
+		slim.toolUseResult = { agentId: result.agentId };
+	}
+	slim.tools = msg.tools?.map(entry => (entry.kind === 'call'
+		? {
+			...entry,
+			input: Object.fromEntries(Object.entries(entry.input)
+				.filter(([, value]) => typeof value !== 'object' && !(typeof value === 'string' && value.length > MAX_SCANNED_INPUT_LENGTH))),
+		}
+		: { ...entry, text: entry.text.slice(0, MAX_INDEXED_RESULT_LENGTH) }));
+	return slim;
+}
+
+// The searchable text of a tool entry
+export function getToolEntryText(entry: ToolEntry): string {
+	if (entry.kind === 'call') {
+		return entry.summary ? `${entry.name} ${entry.summary}` : entry.name;
+	}
+	return entry.text.slice(0, MAX_INDEXED_RESULT_LENGTH);
+}
+
+// Input arguments as "key: value" lines for the detail view
+export function formatToolInput(input: Record<string, unknown>): string {
+	return Object.entries(input)
+		.map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value, null, 2)}`)
+		.join('\n');
+}
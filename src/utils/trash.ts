@@ -0,0 +1,103 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Session } from './sessionScanner.js';
+import { getDataDir } from './annotations.js';
+
+// Sessions are never deleted outright. Removing one moves its transcript, its
+// <session id>/ directory (subagent transcripts, tool results) and any subagent
+// transcripts kept next to it into the trash or the archive. Both mirror the
+// projects directory, so a session is restored by moving its files back.
+
+export type RemoveDestination = 'trash' | 'archive';
+
+export function getRemovedDir(destination: RemoveDestination): string {
+	return path.join(getDataDir(), destination);
+}
+
+// The files and directories that make up a session, for moving and sizing
+export async function getSessionPaths(filePath: string, subagentPaths: string[] = []): Promise<string[]> {
+	const paths = [filePath];
+	const sessionDir = filePath.replace(/\.jsonl$/, '');
+	try {
+		if ((await fs.stat(sessionDir)).isDirectory()) {
+			paths.push(sessionDir);
+		}
+	} catch {
+		// Older sessions have no directory of their own
+	}
+	for (const subagentPath of subagentPaths) {
+		if (!subagentPath.startsWith(sessionDir + path.sep)) {
+			paths.push(subagentPath);
+		}
+	}
+	return paths;
+}
+
+// Bytes used by files and directories, counted recursively
+export async function getDiskUsage(paths: string[]): Promise<number> {
+	let total = 0;
+	for (const entryPath of paths) {
+		const stat = await fs.lstat(entryPath);
+		if (stat.isDirectory()) {
+			const children = await fs.readdir(entryPath);
+			total += await getDiskUsage(children.map(child => path.join(entryPath, child)));
+		} else {
+			total += stat.size;
+		}
+	}
+	return total;
+}
+
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+	return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+async function exists(entryPath: string): Promise<boolean> {
+	try {
+		await fs.lstat(entryPath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function movePath(from: string, to: string): Promise<void> {
+	await fs.mkdir(path.dirname(to), { recursive: true });
+	try {
+		await fs.rename(from, to);
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+		// The data directory is on another filesystem: copy, then remove the original
+		await fs.cp(from, to, { recursive: true, errorOnExist: true, force: false });
+		await fs.rm(from, { recursive: true });
+	}
+}
+
+// Move a transcript and what belongs to it into the trash or archive, keeping
+// the project directory it was in. Nothing is moved if anything would be
+// overwritten. The transcript goes last, so the session stays listed until
+// everything else has moved. Returns where the transcript was moved to.
+export async function moveTranscript(filePath: string, subagentPaths: string[], destination: RemoveDestination): Promise<string> {
+	const projectDir = path.dirname(filePath);
+	const targetDir = path.join(getRemovedDir(destination), path.basename(projectDir));
+	const moves = (await getSessionPaths(filePath, subagentPaths))
+		.map(from => ({ from, to: path.join(targetDir, path.relative(projectDir, from)) }));
+
+	for (const { to } of moves) {
+		if (await exists(to)) {
+			throw new Error(`${to} already exists`);
+		}
+	}
+	for (const { from, to } of moves.slice(1)) {
+		await movePath(from, to);
+	}
+	await movePath(moves[0].from, moves[0].to);
+	return moves[0].to;
+}
+
+export function moveSession(session: Session, destination: RemoveDestination): Promise<string> {
+	return moveTranscript(session.filePath, session.subagents.map(subagent => subagent.filePath), destination);
+}
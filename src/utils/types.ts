@@ -0,0 +1,16 @@
+import type { SearchMode, SearchMatch } from './ranking.js';
+
+// Types shared by the views and the app that switches between them
+
+// Outcome of an action, shown in place of the help line until the next key
+export interface StatusMessage {
+	text: string;
+	isError: boolean;
+}
+
+// The search a session was opened from, handed to the detail view
+export interface ActiveSearch {
+	query: string;
+	mode: SearchMode;
+	match?: SearchMatch;
+}
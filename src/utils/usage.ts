@@ -0,0 +1,214 @@
+import type { Session, SessionMessage } from './sessionScanner.js';
+
+// Token usage recorded with assistant messages, and the cost estimated from it.
+// Claude Code writes one transcript entry per content block of a response, each
+// carrying the response's usage, so entries are counted once per message id.
+
+export interface TokenUsage {
+	input: number;
+	output: number;
+	cacheCreation: number; // Input tokens written to the prompt cache
+	cacheRead: number; // Input tokens read from the prompt cache
+}
+
+// Token usage keyed by model
+export type ModelUsage = Record<string, TokenUsage>;
+
+// One API response's usage. Forks and resumes copy their parent's responses,
+// message ids included, so sums over several sessions count each id once.
+export interface ResponseUsage extends TokenUsage {
+	id?: string; // API message id, or the entry's uuid where it has none
+	model: string;
+}
+
+// Prices in USD per million tokens
+export interface ModelPrice {
+	input: number;
+	output: number;
+	cacheWrite: number;
+	cacheRead: number;
+}
+
+// Keyed by model name or prefix, e.g. "claude-sonnet-4" also prices "claude-sonnet-4-5-20250929"
+export type PriceTable = Record<string, ModelPrice>;
+
+// Opus 4 and 4.1 are listed by name so that later Opus 4.x models without an
+// entry of their own fall back to the current price rather than the legacy one
+export const DEFAULT_PRICES: PriceTable = {
+	'claude-opus-4': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+	'claude-opus-4-20250514': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+	'claude-opus-4-0': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+	'claude-opus-4-1': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+	'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+	'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+	'claude-3-opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+	'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+	'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+	'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+	'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+};
+
+export interface CostEstimate {
+	cost: number; // USD, for the models with a price
+	unpriced: string[]; // Models that used tokens but have no price
+}
+
+export function emptyUsage(): TokenUsage {
+	return { input: 0, output: 0, cacheCreation: 0, cacheRead: 0 };
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage): void {
+	total.input += usage.input;
+	total.output += usage.output;
+	total.cacheCreation += usage.cacheCreation;
+	total.cacheRead += usage.cacheRead;
+}
+
+function toCount(value: unknown): number {
+	return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+// The usage of a transcript's assistant messages, one per response
+export function extractResponseUsage(messages: SessionMessage[]): ResponseUsage[] {
+	// The last entry of a response has its final usage
+	const responses = new Map<string, ResponseUsage>();
+	messages.forEach((msg, i) => {
+		const usage = msg.message?.usage;
+		const model = msg.message?.model;
+		// Claude Code writes some messages itself (e.g. API errors) with the model "<synthetic>"
+		if (msg.type !== 'assistant' || !usage || !model || model === '<synthetic>') return;
+		const id = msg.message?.id ?? msg.uuid;
+		responses.set(id ?? `#${i}`, {
+			id,
+			model,
+			input: toCount(usage.input_tokens),
+			output: toCount(usage.output_tokens),
+			cacheCreation: toCount(usage.cache_creation_input_tokens),
+			cacheRead: toCount(usage.cache_read_input_tokens),
+		});
+	});
+	return [...responses.values()];
+}
+
+export function sumResponseUsage(responses: ResponseUsage[]): ModelUsage {
+	const byModel: ModelUsage = {};
+	for (const response of responses) {
+		if (!byModel[response.model]) byModel[response.model] = emptyUsage();
+		addUsage(byModel[response.model], response);
+	}
+	return byModel;
+}
+
+// Sum the usage of a transcript's assistant messages by model
+export function extractModelUsage(messages: SessionMessage[]): ModelUsage {
+	return sumResponseUsage(extractResponseUsage(messages));
+}
+
+export function mergeModelUsage(usages: ModelUsage[]): ModelUsage {
+	const merged: ModelUsage = {};
+	for (const byModel of usages) {
+		for (const [model, usage] of Object.entries(byModel)) {
+			if (!merged[model]) merged[model] = emptyUsage();
+			addUsage(merged[model], usage);
+		}
+	}
+	return merged;
+}
+
+// A session's usage including its subagents', which run on the same account
+export function getSessionUsage(session: Session): ModelUsage {
+	return mergeModelUsage([sumResponseUsage(session.responses), ...session.subagents.map(subagent => subagent.usage)]);
+}
+
+// The usage of several sessions together, subagents included. Responses that
+// forks and resumes copied from one another are counted once.
+export function getCombinedUsage(sessions: Session[]): ModelUsage {
+	const seen = new Set<string>();
+	const responses: ResponseUsage[] = [];
+	const subagentUsage: ModelUsage[] = [];
+	for (const session of sessions) {
+		for (const response of session.responses) {
+			if (response.id !== undefined) {
+				if (seen.has(response.id)) continue;
+				seen.add(response.id);
+			}
+			responses.push(response);
+		}
+		subagentUsage.push(...session.subagents.map(subagent => subagent.usage));
+	}
+	return mergeModelUsage([sumResponseUsage(responses), ...subagentUsage]);
+}
+
+export function getTotalUsage(byModel: ModelUsage): TokenUsage {
+	const total = emptyUsage();
+	for (const usage of Object.values(byModel)) {
+		addUsage(total, usage);
+	}
+	return total;
+}
+
+export function getTotalTokens(usage: TokenUsage): number {
+	return usage.input + usage.output + usage.cacheCreation + usage.cacheRead;
+}
+
+// The price for a model: an exact entry, or else the longest prefix ending at a dash
+export function findModelPrice(model: string, prices: PriceTable): ModelPrice | undefined {
+	let best: string | undefined;
+	for (const key of Object.keys(prices)) {
+		if ((model === key || model.startsWith(`${key}-`)) && (!best || key.length > best.length)) {
+			best = key;
+		}
+	}
+	return best !== undefined ? prices[best] : undefined;
+}
+
+export function estimateCost(byModel: ModelUsage, prices: PriceTable): CostEstimate {
+	let cost = 0;
+	const unpriced: string[] = [];
+	for (const [model, usage] of Object.entries(byModel)) {
+		const price = findModelPrice(model, prices);
+		if (!price) {
+			if (getTotalTokens(usage) > 0) unpriced.push(model);
+			continue;
+		}
+		cost += (usage.input * price.input
+			+ usage.output * price.output
+			+ usage.cacheCreation * price.cacheWrite
+			+ usage.cacheRead * price.cacheRead) / 1_000_000;
+	}
+	return { cost, unpriced };
+}
+
+// 950, 12.3k, 4.5M
+export function formatTokens(count: number): string {
+	if (count < 1000) return String(count);
+	if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+	return `${(count / 1_000_000).toFixed(count < 10_000_000 ? 1 : 0)}M`;
+}
+
+// $1.23; "+" when models without a price used tokens too, "?" when none had a price
+export function formatCost(estimate: CostEstimate): string {
+	if (estimate.cost === 0 && estimate.unpriced.length > 0) return '?';
+	return `$${estimate.cost.toFixed(2)}${estimate.unpriced.length > 0 ? '+' : ''}`;
+}
+
+export interface ProjectUsage {
+	directory: string;
+	sessions: number;
+	usage: ModelUsage;
+}
+
+// Usage summed per project directory, subagents included, in no particular order
+export function getProjectUsage(sessions: Session[]): ProjectUsage[] {
+	const byDirectory = new Map<string, Session[]>();
+	for (const session of sessions) {
+		const projectSessions = byDirectory.get(session.directory) || [];
+		projectSessions.push(session);
+		byDirectory.set(session.directory, projectSessions);
+	}
+	return [...byDirectory].map(([directory, projectSessions]) => ({
+		directory,
+		sessions: projectSessions.length,
+		usage: getCombinedUsage(projectSessions),
+	}));
+}
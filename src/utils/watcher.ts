@@ -0,0 +1,34 @@
+import { watch, FSWatcher } from 'fs';
+
+// Changes are collected for this long before onChange is called. A session
+// being written to changes its transcript with every message, so the delay
+// isn't restarted by further changes.
+const CHANGE_DELAY_MS = 1000;
+
+// Call onChange when transcripts under the projects root are created, changed
+// or deleted. Returns a function that stops watching. Where the root can't be
+// watched (e.g. it doesn't exist yet, or the system is out of watches) nothing
+// is reported and sessions can still be refreshed by hand.
+export function watchTranscripts(projectsRoot: string, onChange: () => void): () => void {
+	let timer: NodeJS.Timeout | undefined;
+	let watcher: FSWatcher;
+	try {
+		watcher = watch(projectsRoot, { recursive: true }, (_event, filename) => {
+			// Some platforms don't report names; treat those as transcript changes
+			if (filename && !filename.toString().endsWith('.jsonl')) return;
+			if (timer) return;
+			timer = setTimeout(() => {
+				timer = undefined;
+				onChange();
+			}, CHANGE_DELAY_MS);
+		});
+	} catch {
+		return () => {};
+	}
+	watcher.on('error', () => watcher.close());
+
+	return () => {
+		clearTimeout(timer);
+		watcher.close();
+	};
+}
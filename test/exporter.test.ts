@@ -0,0 +1,53 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { writeExportFile, getExportFileName } from '../src/utils/exporter.js';
+import type { SessionMessage } from '../src/utils/sessionScanner.js';
+import { makeSession } from './helpers.js';
+
+const messages: SessionMessage[] = [
+	{ type: 'user', message: { role: 'user', content: 'hello there' } },
+	{ type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: 'hi' }] } },
+];
+
+describe('writeExportFile', () => {
+	let dir: string;
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'export-test-'));
+	});
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it('writes under the default file name', async () => {
+		const session = makeSession({ id: '1a2b3c4d-0000' });
+		const filePath = await writeExportFile(session, messages, { format: 'md' }, dir);
+		assert.equal(filePath, path.join(dir, 'claude-session-1a2b3c4d.md'));
+		assert.match(await fs.readFile(filePath, 'utf-8'), /hello there/);
+	});
+
+	it('never overwrites an existing file', async () => {
+		await fs.writeFile(path.join(dir, 'claude-session-1a2b3c4d.md'), 'keep me');
+		const filePath = await writeExportFile(makeSession({ id: '1a2b3c4d-0000' }), messages, { format: 'md' }, dir);
+		assert.equal(path.basename(filePath), 'claude-session-1a2b3c4d-2.md');
+		assert.equal(await fs.readFile(path.join(dir, 'claude-session-1a2b3c4d.md'), 'utf-8'), 'keep me');
+	});
+
+	it('numbers sessions whose ids share their first 8 characters', async () => {
+		const first = await writeExportFile(makeSession({ id: '1a2b3c4d-aaaa' }), messages, { format: 'json' }, dir);
+		const second = await writeExportFile(makeSession({ id: '1a2b3c4d-bbbb' }), messages, { format: 'json' }, dir);
+		assert.notEqual(first, second);
+		assert.equal(JSON.parse(await fs.readFile(first, 'utf-8')).id, '1a2b3c4d-aaaa');
+		assert.equal(JSON.parse(await fs.readFile(second, 'utf-8')).id, '1a2b3c4d-bbbb');
+	});
+});
+
+describe('getExportFileName', () => {
+	it('adds the copy number after the first one', () => {
+		const session = makeSession({ id: '1a2b3c4d-0000' });
+		assert.equal(getExportFileName(session, 'html'), 'claude-session-1a2b3c4d.html');
+		assert.equal(getExportFileName(session, 'html', 3), 'claude-session-1a2b3c4d-3.html');
+	});
+});
@@ -0,0 +1,52 @@
+import type { Session, SessionMessage, SearchText, SearchEntry, MessageRole } from '../src/utils/sessionScanner.js';
+
+// A listed session with empty defaults, for tests that only care about a few fields
+export function makeSession(overrides: Partial<Session> = {}): Session {
+	const timestamp = overrides.timestamp ?? new Date('2026-10-01T10:00:00Z');
+	return {
+		id: 'session',
+		directory: '/work/project',
+		filePath: '/projects/-work-project/session.jsonl',
+		firstMessage: 'hello',
+		search: { text: '', entries: [] },
+		messageCount: 2,
+		timestamp,
+		lastTimestamp: timestamp,
+		cwd: '/work/project',
+		branches: [],
+		models: [],
+		responses: [],
+		files: [],
+		taskCalls: [],
+		subagents: [],
+		chain: { uuids: [], times: [] },
+		forks: [],
+		...overrides,
+	};
+}
+
+// An assistant transcript entry with the usage of its response
+export function assistantMessage(id: string, model: string, input: number, output: number): SessionMessage {
+	return {
+		type: 'assistant',
+		uuid: `${id}-entry`,
+		message: {
+			role: 'assistant',
+			id,
+			model,
+			content: [{ type: 'text', text: 'ok' }],
+			usage: { input_tokens: input, output_tokens: output },
+		},
+	};
+}
+
+// Searchable text of a conversation with one entry per message, in order
+export function makeSearchText(messages: Array<{ role: MessageRole; text: string; tool?: string }>): SearchText {
+	const entries: SearchEntry[] = [];
+	let offset = 0;
+	messages.forEach(({ role, text, tool }, index) => {
+		entries.push({ role, index, start: offset, end: offset + text.length, ...(tool ? { tool } : {}) });
+		offset += text.length + 1;
+	});
+	return { text: messages.map(message => message.text).join('\n'), entries };
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { linkForks } from '../src/utils/lineage.js';
+import type { Session } from '../src/utils/sessionScanner.js';
+import { makeSession } from './helpers.js';
+
+// A session whose conversation is the given message uuids, one minute apart from start
+function chainSession(id: string, uuids: string[], start: number): Session {
+	const times = uuids.map((_, i) => start + i * 60000);
+	return makeSession({
+		id,
+		timestamp: new Date(times[0]),
+		lastTimestamp: new Date(times[times.length - 1]),
+		chain: { uuids, times },
+	});
+}
+
+function byId(sessions: Session[]): Map<string, Session> {
+	return new Map(sessions.map(session => [session.id, session]));
+}
+
+describe('linkForks', () => {
+	it('links a session that continues from the last message as a resume', () => {
+		const linked = byId(linkForks([
+			chainSession('original', ['a', 'b'], 0),
+			chainSession('resumed', ['a', 'b', 'c'], 0),
+		]));
+		assert.deepEqual(linked.get('resumed')?.forkOf, { parentId: 'original', relation: 'resume', sharedMessages: 2 });
+		assert.deepEqual(linked.get('original')?.forks, ['resumed']);
+		assert.equal(linked.get('original')?.forkOf, undefined);
+	});
+
+	it('links a session that branched off earlier as a fork', () => {
+		const linked = byId(linkForks([
+			chainSession('original', ['a', 'b', 'c'], 0),
+			chainSession('forked', ['a', 'x'], 3600000),
+		]));
+		assert.deepEqual(linked.get('forked')?.forkOf, { parentId: 'original', relation: 'fork', sharedMessages: 1 });
+	});
+
+	it('places a fork under the member it shares the most messages with', () => {
+		const linked = byId(linkForks([
+			chainSession('original', ['a', 'b'], 0),
+			chainSession('resumed', ['a', 'b', 'c', 'd'], 0),
+			chainSession('forked', ['a', 'b', 'c', 'x'], 3600000),
+		]));
+		assert.equal(linked.get('forked')?.forkOf?.parentId, 'resumed');
+		assert.equal(linked.get('resumed')?.forkOf?.parentId, 'original');
+	});
+
+	it('leaves unrelated sessions alone', () => {
+		const linked = linkForks([chainSession('one', ['a'], 0), chainSession('two', ['b'], 0)]);
+		assert.ok(linked.every(session => !session.forkOf && session.forks.length === 0));
+	});
+});
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { selectPruneCandidates } from '../src/commands/prune.js';
+import type { HiddenTranscript } from '../src/utils/sessionScanner.js';
+import { makeSession } from './helpers.js';
+
+const old = new Date('2026-01-01T00:00:00Z');
+const recent = new Date('2026-10-18T12:00:00Z');
+const before = new Date('2026-10-18T00:00:00Z');
+
+function hiddenTranscript(id: string, messageCount: number, lastModified = old): HiddenTranscript {
+	return { filePath: `/projects/-work/${id}.jsonl`, reason: 'first message matches ^<command-name>', size: 100, lastModified, messageCount };
+}
+
+function ids(candidates: { id: string }[]): string[] {
+	return candidates.map(candidate => candidate.id).sort();
+}
+
+describe('selectPruneCandidates', () => {
+	it('picks hidden transcripts last modified before the cutoff', () => {
+		const candidates = selectPruneCandidates([], [hiddenTranscript('warmup', 2), hiddenTranscript('writing', 0, recent)], {}, { before });
+		assert.deepEqual(ids(candidates), ['warmup']);
+		assert.equal(candidates[0].reason, 'hidden: first message matches ^<command-name>');
+	});
+
+	it('leaves listed sessions alone without maxMessages', () => {
+		const sessions = [makeSession({ id: 'short', messageCount: 1, lastTimestamp: old })];
+		assert.deepEqual(selectPruneCandidates(sessions, [], {}, { before }), []);
+	});
+
+	it('applies maxMessages to listed and hidden sessions alike', () => {
+		const sessions = [
+			makeSession({ id: 'short', messageCount: 2, lastTimestamp: old }),
+			makeSession({ id: 'long', messageCount: 40, lastTimestamp: old }),
+		];
+		const hidden = [hiddenTranscript('warmup', 2), hiddenTranscript('init-conversation', 30)];
+		assert.deepEqual(ids(selectPruneCandidates(sessions, hidden, {}, { before, maxMessages: 2 })), ['short', 'warmup']);
+		assert.deepEqual(ids(selectPruneCandidates(sessions, hidden, {}, { before, maxMessages: 0 })), []);
+	});
+
+	it('keeps recently active and starred sessions', () => {
+		const sessions = [
+			makeSession({ id: 'active', messageCount: 1, lastTimestamp: recent }),
+			makeSession({ id: 'starred', messageCount: 1, lastTimestamp: old }),
+		];
+		const hidden = [hiddenTranscript('starred-hidden', 1)];
+		const annotations = { starred: { starred: true }, 'starred-hidden': { starred: true } };
+		assert.deepEqual(selectPruneCandidates(sessions, hidden, annotations, { before, maxMessages: 5 }), []);
+	});
+});
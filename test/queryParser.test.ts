@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuery, parseDateValue } from '../src/utils/queryParser.js';
+import { makeSession } from './helpers.js';
+
+describe('parseQuery', () => {
+	it('splits filters and exclusions from the free text', () => {
+		const parsed = parseQuery('deploy dir:infra -staging role:user');
+		assert.equal(parsed.text, 'deploy');
+		assert.deepEqual(parsed.filters.map(filter => filter.label), ['dir:infra', 'role:user']);
+		assert.deepEqual(parsed.excludes, ['staging']);
+		assert.equal(parsed.role, 'user');
+		assert.deepEqual(parsed.errors, []);
+	});
+
+	it('keeps unknown key:value tokens in the text', () => {
+		assert.equal(parseQuery('https://example.com/x').text, 'https://example.com/x');
+	});
+
+	it('reads quoted filter values with spaces', () => {
+		const [filter] = parseQuery('dir:"my project"').filters;
+		assert.equal(filter.value, 'my project');
+		assert.ok(filter.test(makeSession({ cwd: '/home/me/My Project' })));
+		assert.ok(!filter.test(makeSession({ cwd: '/home/me/other' })));
+	});
+
+	it('reports invalid filter values', () => {
+		const parsed = parseQuery('role:robot min-msgs:-1 after:2026-02-30 dir:');
+		assert.equal(parsed.filters.length, 0);
+		assert.equal(parsed.errors.length, 4);
+	});
+
+	it('searches literal text as typed', () => {
+		const parsed = parseQuery('git push --force "foo  bar" dir:infra', { literal: true });
+		assert.equal(parsed.text, 'git push --force foo  bar');
+		assert.deepEqual(parsed.excludes, []);
+		assert.deepEqual(parsed.filters.map(filter => filter.label), ['dir:infra']);
+	});
+
+	it('keeps the whitespace of literal text around removed filters', () => {
+		assert.equal(parseQuery('dir:infra a\\s+b  -x dir:y c', { literal: true }).text, 'a\\s+b  -x c');
+	});
+});
+
+describe('parseDateValue', () => {
+	it('parses dates in local time', () => {
+		assert.deepEqual(parseDateValue('2026-03-01'), new Date(2026, 2, 1));
+	});
+
+	it('rejects out-of-range months and days instead of rolling them over', () => {
+		assert.equal(parseDateValue('2026-13-01'), null);
+		assert.equal(parseDateValue('2026-02-29'), null);
+		assert.equal(parseDateValue('2026-04-31'), null);
+		assert.deepEqual(parseDateValue('2028-02-29'), new Date(2028, 1, 29));
+	});
+
+	it('parses relative ages', () => {
+		const before = Date.now();
+		const date = parseDateValue('7d');
+		assert.ok(date);
+		assert.ok(Math.abs(before - 7 * 86400000 - date.getTime()) < 1000);
+	});
+
+	it('rejects anything else', () => {
+		assert.equal(parseDateValue('yesterday'), null);
+		assert.equal(parseDateValue('2026-3-1'), null);
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rankSessions } from '../src/utils/ranking.js';
+import { parseQuery } from '../src/utils/queryParser.js';
+import { makeSession, makeSearchText } from './helpers.js';
+
+const deploy = makeSession({
+	id: 'deploy',
+	firstMessage: 'deploy the login service',
+	search: makeSearchText([
+		{ role: 'user', text: 'deploy the login service' },
+		{ role: 'assistant', text: 'Running git push --force to staging' },
+		{ role: 'user', text: 'kubectl get pods', tool: 'Bash' },
+	]),
+	subagents: [{
+		id: 'agent-1',
+		parentId: 'deploy',
+		filePath: '/projects/-work-project/agent-agent-1.jsonl',
+		prompt: 'check the rollout',
+		search: makeSearchText([{ role: 'user', text: 'check the rollout' }, { role: 'assistant', text: 'the canary is healthy' }]),
+		messageCount: 2,
+		timestamp: new Date(0),
+		files: [],
+		usage: {},
+		parentIndex: 1,
+	}],
+});
+const poem = makeSession({
+	id: 'poem',
+	firstMessage: 'write a poem about cats',
+	search: makeSearchText([{ role: 'user', text: 'write a poem about cats' }, { role: 'assistant', text: 'Cats nap in the sun' }]),
+});
+
+function search(query: string, mode: 'fuzzy' | 'exact' | 'regex') {
+	return rankSessions([deploy, poem], parseQuery(query, { literal: mode !== 'fuzzy' }), mode);
+}
+
+describe('rankSessions', () => {
+	it('locates exact matches in the message that holds them', () => {
+		const [result, ...rest] = search('--force', 'exact');
+		assert.equal(rest.length, 0);
+		assert.equal(result.session.id, 'deploy');
+		assert.deepEqual(result.match, {
+			role: 'assistant',
+			messageIndex: 1,
+			text: 'Running git push --force to staging',
+			ranges: [[17, 24]],
+			tool: undefined,
+			subagent: undefined,
+		});
+	});
+
+	it('points matches in a subagent at the call that started it', () => {
+		const [result] = search('canary', 'regex');
+		assert.equal(result.match?.subagent, 'agent-1');
+		assert.equal(result.match?.messageIndex, 1);
+		assert.equal(result.match?.text, 'the canary is healthy');
+	});
+
+	it('reports the tool of matches in tool entries', () => {
+		assert.equal(search('kubectl', 'exact')[0].match?.tool, 'Bash');
+	});
+
+	it('only searches one side of the conversation with role:', () => {
+		assert.deepEqual(search('role:assistant cats', 'exact').map(result => result.session.id), ['poem']);
+		assert.deepEqual(search('role:assistant deploy', 'exact'), []);
+	});
+
+	it('drops sessions containing an excluded word, whatever its case', () => {
+		assert.deepEqual(rankSessions([deploy, poem], parseQuery('-CANARY')).map(result => result.session.id), ['poem']);
+	});
+
+	it('finds fuzzy matches and the message they are in', () => {
+		const [result] = search('poem about cat', 'fuzzy');
+		assert.equal(result.session.id, 'poem');
+		assert.equal(result.match?.text, 'write a poem about cats');
+	});
+
+	it('finds fuzzy matches limited to a role', () => {
+		const [result] = search('role:assistant canary healthy', 'fuzzy');
+		assert.equal(result.session.id, 'deploy');
+		assert.equal(result.match?.subagent, 'agent-1');
+	});
+});
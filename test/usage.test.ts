@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+	DEFAULT_PRICES,
+	findModelPrice,
+	extractModelUsage,
+	extractResponseUsage,
+	getCombinedUsage,
+	getProjectUsage,
+	estimateCost,
+	formatCost,
+} from '../src/utils/usage.js';
+import { assistantMessage, makeSession } from './helpers.js';
+
+describe('findModelPrice', () => {
+	it('prices Opus 4 and 4.1 at the legacy rate', () => {
+		assert.equal(findModelPrice('claude-opus-4-20250514', DEFAULT_PRICES)?.input, 15);
+		assert.equal(findModelPrice('claude-opus-4-1-20250805', DEFAULT_PRICES)?.input, 15);
+	});
+
+	it('prices later Opus 4 models at the current rate', () => {
+		assert.equal(findModelPrice('claude-opus-4-5-20251101', DEFAULT_PRICES)?.input, 5);
+		assert.equal(findModelPrice('claude-opus-4-6', DEFAULT_PRICES)?.input, 5);
+	});
+
+	it('only matches prefixes that end at a dash', () => {
+		const prices = { 'claude-x': { input: 1, output: 2, cacheWrite: 1.25, cacheRead: 0.1 } };
+		assert.ok(findModelPrice('claude-x-20250101', prices));
+		assert.equal(findModelPrice('claude-xl', prices), undefined);
+	});
+});
+
+describe('extractModelUsage', () => {
+	it('counts each response once, however many entries it was written as', () => {
+		const usage = extractModelUsage([
+			assistantMessage('msg_1', 'claude-sonnet-4-5', 1000, 10),
+			assistantMessage('msg_1', 'claude-sonnet-4-5', 1000, 50),
+			assistantMessage('msg_2', 'claude-sonnet-4-5', 2000, 20),
+		]);
+		assert.deepEqual(usage['claude-sonnet-4-5'], { input: 3000, output: 70, cacheCreation: 0, cacheRead: 0 });
+	});
+
+	it('skips messages Claude Code wrote itself', () => {
+		assert.deepEqual(extractModelUsage([assistantMessage('msg_1', '<synthetic>', 10, 10)]), {});
+	});
+});
+
+describe('estimateCost', () => {
+	it('adds up priced models and lists the rest', () => {
+		const estimate = estimateCost({
+			'claude-sonnet-4-5': { input: 1_000_000, output: 100_000, cacheCreation: 0, cacheRead: 0 },
+			'other-model': { input: 10, output: 0, cacheCreation: 0, cacheRead: 0 },
+		}, DEFAULT_PRICES);
+		assert.equal(estimate.cost, 4.5);
+		assert.deepEqual(estimate.unpriced, ['other-model']);
+		assert.equal(formatCost(estimate), '$4.50+');
+	});
+});
+
+describe('getCombinedUsage', () => {
+	// Forking copies the parent's responses, message ids and usage included
+	const original = makeSession({
+		id: 'original',
+		responses: extractResponseUsage([assistantMessage('msg_1', 'claude-sonnet-4-5', 3000, 100)]),
+	});
+	const fork = makeSession({
+		id: 'fork',
+		responses: extractResponseUsage([
+			assistantMessage('msg_1', 'claude-sonnet-4-5', 3000, 100),
+			assistantMessage('msg_2', 'claude-sonnet-4-5', 500, 10),
+		]),
+	});
+
+	it('counts the responses a fork copied from its parent once', () => {
+		assert.deepEqual(getCombinedUsage([original, fork])['claude-sonnet-4-5'], { input: 3500, output: 110, cacheCreation: 0, cacheRead: 0 });
+	});
+
+	it('counts them once per project too', () => {
+		const [project] = getProjectUsage([original, fork]);
+		assert.equal(project.sessions, 2);
+		assert.equal(project.usage['claude-sonnet-4-5'].input, 3500);
+	});
+
+	it('adds the subagents of every session', () => {
+		const withSubagent = makeSession({
+			...fork,
+			subagents: [{
+				id: 'agent',
+				parentId: 'fork',
+				filePath: '/projects/-work-project/agent-agent.jsonl',
+				prompt: 'look around',
+				search: { text: '', entries: [] },
+				messageCount: 2,
+				timestamp: new Date(0),
+				files: [],
+				usage: { 'claude-haiku-4-5': { input: 40, output: 4, cacheCreation: 0, cacheRead: 0 } },
+			}],
+		});
+		const usage = getCombinedUsage([original, withSubagent]);
+		assert.equal(usage['claude-sonnet-4-5'].input, 3500);
+		assert.equal(usage['claude-haiku-4-5'].input, 40);
+	});
+});